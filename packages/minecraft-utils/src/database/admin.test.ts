@@ -0,0 +1,80 @@
+import type { Entity } from "@minecraft/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { databaseAdmin } from "./admin";
+import { SimpleDatabase } from "./database";
+import { setDatabaseEnvironment } from "./environment";
+import { SimpleDatabaseOptions, SimpleObject } from "./interfaces";
+import { MemoryEnvironment } from "./memory";
+
+interface Item extends SimpleObject {
+	count: number;
+}
+
+class ItemDatabase extends SimpleDatabase<Item> {
+	constructor(options: SimpleDatabaseOptions<Item> = {}) {
+		super("items", undefined, options);
+	}
+}
+
+let environment: MemoryEnvironment;
+
+beforeEach(() => {
+	environment = new MemoryEnvironment();
+	setDatabaseEnvironment(environment);
+	vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("DatabaseAdmin import", () => {
+	it("replaces the records of a closed database stored per record", () => {
+		const database = new ItemDatabase({ storage: "record" });
+		database.addObject({ id: "a", count: 1 });
+		database.addObject({ id: "b", count: 2 });
+		database.close();
+
+		databaseAdmin.import(
+			"starktma:items",
+			JSON.stringify([
+				{ id: "b", count: 3 },
+				{ id: "c", count: 4 },
+			])
+		);
+
+		expect(environment.world.getProperty("starktma:items#a")).toBeUndefined();
+		expect(environment.world.getProperty("starktma:items#c")).toBeTypeOf("string");
+		const reopened = new ItemDatabase({ storage: "record" });
+		expect(reopened.getAllObjects()).toEqual([
+			{ id: "b", count: 3 },
+			{ id: "c", count: 4 },
+		]);
+		reopened.close();
+	});
+
+	it("replaces the loaded objects of an open database", () => {
+		const database = new ItemDatabase();
+		database.addObject({ id: "a", count: 1 });
+
+		databaseAdmin.import("starktma:items", JSON.stringify([{ id: "b", count: 2 }]));
+
+		expect(database.getAllObjects()).toEqual([{ id: "b", count: 2 }]);
+		database.close();
+	});
+});
+
+describe("DatabaseAdmin script events", () => {
+	it("imports into the entity given by id", () => {
+		const entity = { id: "-5", isValid: true } as unknown as Entity;
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		databaseAdmin.start();
+
+		environment.sendScriptEvent("starktma:db_import", 'items -5 [{"id":"a","count":1}]');
+		expect(error).toHaveBeenCalledWith("starktma:db_import failed: Entity -5 not found");
+
+		environment.loadEntity(entity);
+		environment.sendScriptEvent("starktma:db_import", 'items -5 [{"id":"a","count":1}]');
+		expect(environment.createTargetStorage(entity).getProperty("starktma:items")).toBeTypeOf("string");
+	});
+});
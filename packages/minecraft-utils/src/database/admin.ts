@@ -0,0 +1,205 @@
+import type { Entity } from "@minecraft/server";
+import { getNamespace } from "../constants";
+import { decodeValue, encodeValue } from "./codecs";
+import { DatabaseManager, SimpleDatabase } from "./database";
+import { getDatabaseEnvironment } from "./environment";
+import { SimpleObject } from "./interfaces";
+import { BlockLocationTarget } from "./targets";
+
+/**
+ * DatabaseAdmin lets operators back up, inspect and restore stored databases through script events.
+ * Output is written to the content log.
+ *
+ * Targets are "world" (the default), "@s" for the entity running the command, or an entity id.
+ * Database names without a namespace are resolved in the current namespace.
+ *
+ * @example
+ * // In the add-on
+ * databaseAdmin.start();
+ *
+ * // In game
+ * /scriptevent myproject:db_list
+ * /scriptevent myproject:db_list @s
+ * /scriptevent myproject:db_dump branchDatabase
+ * /scriptevent myproject:db_import effects @s [{"id":"poison","namespace":"myproject", ...}]
+ * /scriptevent myproject:db_usage
+ * /scriptevent myproject:db_sweep @s dry
+ */
+class DatabaseAdmin {
+	private static instance: DatabaseAdmin;
+	private started = false;
+
+	static getInstance(): DatabaseAdmin {
+		if (!DatabaseAdmin.instance) {
+			DatabaseAdmin.instance = new DatabaseAdmin();
+		}
+		return DatabaseAdmin.instance;
+	}
+
+	private constructor() {}
+
+	/**
+	 * Subscribes to the admin script events. Safe to call more than once.
+	 */
+	start() {
+		if (this.started) return;
+		this.started = true;
+
+		getDatabaseEnvironment().onScriptEvent((id, message, sourceEntity) => {
+			try {
+				this.handleScriptEvent(id, message, sourceEntity);
+			} catch (error) {
+				console.error(`${id} failed: ${error instanceof Error ? error.message : error}`);
+			}
+		});
+	}
+
+	private handleScriptEvent(id: string, message: string, sourceEntity: Entity | undefined) {
+		const LIST_EVENT = `${getNamespace()}:db_list`;
+		const DUMP_EVENT = `${getNamespace()}:db_dump`;
+		const IMPORT_EVENT = `${getNamespace()}:db_import`;
+		const USAGE_EVENT = `${getNamespace()}:db_usage`;
+		const SWEEP_EVENT = `${getNamespace()}:db_sweep`;
+
+		const args = message.trim();
+		if (id === LIST_EVENT) {
+			const names = this.list(this.resolveTarget(args, sourceEntity));
+			console.warn(`[${LIST_EVENT}] ${names.length} databases on ${args || "world"}`);
+			names.forEach((name) => console.warn(`[${LIST_EVENT}] ${name}`));
+		} else if (id === DUMP_EVENT) {
+			const [name, target = ""] = args.split(/\s+/);
+			this.dump(this.resolveName(name), this.resolveTarget(target, sourceEntity));
+		} else if (id === IMPORT_EVENT) {
+			const match = args.match(/^(\S+)\s+(?:(?![[{])(\S+)\s+)?([\s\S]+)$/);
+			if (!match) {
+				throw new Error("Expected <database> [target] <json>");
+			}
+			const [, name, target = "", json] = match;
+			this.import(this.resolveName(name), json, this.resolveTarget(target, sourceEntity));
+		} else if (id === USAGE_EVENT) {
+			this.usage(this.resolveTarget(args, sourceEntity));
+		} else if (id === SWEEP_EVENT) {
+			const [target = "", mode = ""] = args.split(/\s+/);
+			const resolved = target === "dry" ? undefined : this.resolveTarget(target, sourceEntity);
+			this.sweep(resolved, target === "dry" || mode === "dry");
+		}
+	}
+
+	private resolveName(name: string | undefined) {
+		if (!name) {
+			throw new Error("A database name is required");
+		}
+		return name.includes(":") ? name : `${getNamespace()}:${name}`;
+	}
+
+	private resolveTarget(target: string, source: Entity | undefined): Entity | undefined {
+		if (target === "" || target === "world") return undefined;
+		if (target === "@s") {
+			if (!source) throw new Error("@s can only be used by an entity");
+			return source;
+		}
+		const entity = getDatabaseEnvironment().getEntity(target);
+		if (!entity) {
+			throw new Error(`Entity ${target} not found`);
+		}
+		return entity;
+	}
+
+	/**
+	 * Lists every database in the current namespace.
+	 * @param target The entity the databases are stored on. If undefined, the world is used.
+	 * @returns The database names.
+	 */
+	list(target?: Entity): string[] {
+		return new DatabaseManager(target).listJSONDatabases(`${getNamespace()}:`);
+	}
+
+	/**
+	 * Writes a database to the content log as pretty JSON, one line per log entry.
+	 * Values stored through value codecs are shown in their encoded form, which import accepts as is.
+	 * @param databaseName The full name of the database.
+	 * @param target The entity the database is stored on. If undefined, the world is used.
+	 */
+	dump(databaseName: string, target?: Entity) {
+		const manager = new DatabaseManager(target);
+		const open = SimpleDatabase.getOpenDatabase(databaseName, manager.targetId);
+		const data = open ? open.getAllObjects() : manager.getJSONDatabase(databaseName);
+
+		const lines = JSON.stringify(encodeValue(data), null, 2).split("\n");
+		console.warn(`[${databaseName}] ${lines.length} lines from ${manager.targetId}`);
+		lines.forEach((line) => console.warn(`[${databaseName}] ${line}`));
+	}
+
+	/**
+	 * Replaces a database with the given JSON. If the database is open, its loaded objects are replaced as well.
+	 * A database stored per record keeps its layout, and the records missing from the JSON are removed.
+	 * @param databaseName The full name of the database.
+	 * @param json The JSON to import, in the format written by dump.
+	 * @param target The entity the database is stored on. If undefined, the world is used.
+	 */
+	import(databaseName: string, json: string, target?: Entity) {
+		const data = decodeValue(JSON.parse(json));
+		const manager = new DatabaseManager(target);
+		const open = SimpleDatabase.getOpenDatabase(databaseName, manager.targetId);
+		const recordIds = open ? undefined : manager.getRecordIds(databaseName);
+
+		if (open) {
+			if (!Array.isArray(data)) {
+				throw new Error(`${databaseName} expects an array of objects`);
+			}
+			open.replaceAllObjects(data);
+		} else if (recordIds) {
+			// Writing the JSON as a single value would leave the stored records orphaned
+			if (!Array.isArray(data) || !data.every((record) => typeof record?.id === "string")) {
+				throw new Error(`${databaseName} expects an array of objects with an id`);
+			}
+			const records = data as SimpleObject[];
+			manager.addRecordDatabase(
+				databaseName,
+				records.map((record) => record.id),
+				records,
+				recordIds
+			);
+		} else {
+			manager.addJSONDatabase(databaseName, data as object);
+		}
+		console.warn(`[${databaseName}] imported into ${manager.targetId}`);
+	}
+
+	/**
+	 * Writes the storage used by each database in the current namespace to the content log, largest first.
+	 * @param target The entity the databases are stored on. If undefined, the world is used.
+	 */
+	usage(target?: Entity) {
+		const report = new DatabaseManager(target).getStorageReport(`${getNamespace()}:`);
+		console.warn(`[${report.targetId}] ${report.databaseBytes} bytes in databases, ${report.totalBytes} bytes in all dynamic properties`);
+		for (const database of report.databases) {
+			console.warn(`[${report.targetId}] ${database.name}: ${database.bytes} bytes`);
+			for (const property of database.properties) {
+				console.warn(`[${report.targetId}]   ${property.id}: ${property.bytes} bytes`);
+			}
+		}
+	}
+
+	/**
+	 * Removes orphaned chunk properties in the current namespace and writes their ids to the content log.
+	 * For the world, the data of blocks that were removed or replaced without an event is removed as well.
+	 * @param target The entity the databases are stored on. If undefined, the world is used.
+	 * @param dryRun If true, the orphans are only listed.
+	 */
+	sweep(target?: Entity, dryRun: boolean = false) {
+		const manager = new DatabaseManager(target);
+		const orphans = manager.sweepOrphanedChunks(`${getNamespace()}:`, dryRun);
+		console.warn(`[${manager.targetId}] ${dryRun ? "found" : "removed"} ${orphans.length} orphaned properties`);
+		orphans.forEach((id) => console.warn(`[${manager.targetId}]   ${id}`));
+		if (target === undefined) {
+			const blocks = BlockLocationTarget.sweep(dryRun);
+			console.warn(`[${manager.targetId}] ${dryRun ? "found" : "removed"} the data of ${blocks.length} removed blocks`);
+			blocks.forEach((block) => console.warn(`[${manager.targetId}]   ${block.key}`));
+		}
+	}
+}
+
+const databaseAdmin = DatabaseAdmin.getInstance();
+
+export { DatabaseAdmin, databaseAdmin };
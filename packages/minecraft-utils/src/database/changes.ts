@@ -0,0 +1,148 @@
+import { getDatabaseEnvironment } from "./environment";
+import { SimpleObject } from "./interfaces";
+import { cloneValue, valuesEqual } from "./utils";
+
+export type AddedCallback<T> = (object: T) => void;
+export type UpdatedCallback<T> = (previous: T, next: T) => void;
+export type RemovedCallback<T> = (object: T) => void;
+export type ExpiredCallback<T> = (object: T) => void;
+
+/**
+ * Listeners keeps the callbacks subscribed to one kind of change.
+ * Callbacks are held as methods, whose parameters TypeScript checks bivariantly,
+ * so a SimpleDatabase of records stays assignable to a SimpleDatabase<SimpleObject>.
+ */
+export class Listeners<A extends unknown[]> {
+	private entries: { notify(...args: A): void }[] = [];
+
+	get size(): number {
+		return this.entries.length;
+	}
+
+	/**
+	 * Adds a callback.
+	 * @param callback The callback.
+	 * @returns A function that removes the callback.
+	 */
+	add(callback: (...args: A) => void): () => void {
+		const entry = { notify: callback };
+		this.entries.push(entry);
+		return () => {
+			const index = this.entries.indexOf(entry);
+			if (index > -1) {
+				this.entries.splice(index, 1);
+			}
+		};
+	}
+
+	/**
+	 * Calls every callback with the given arguments.
+	 */
+	notify(...args: A) {
+		this.entries.forEach((entry) => entry.notify(...args));
+	}
+}
+
+/**
+ * ChangeNotifier collects the ids of changed records and notifies subscribers once per tick.
+ *
+ * Records are often mutated in place before being written back, so the previous value of a record
+ * cannot be read at write time. Instead, a clone of every record is kept as of the last notification,
+ * but only while at least one subscriber exists.
+ */
+export class ChangeNotifier<T extends SimpleObject> {
+	private added: Listeners<[object: T]> = new Listeners();
+	private updated: Listeners<[previous: T, next: T]> = new Listeners();
+	private removed: Listeners<[object: T]> = new Listeners();
+
+	private snapshots: Map<string, T> | undefined;
+	private pending: Set<string> = new Set();
+	private flushScheduled = false;
+
+	private getRecord: (id: string) => T | undefined;
+	private getRecords: () => Iterable<T>;
+
+	constructor(getRecord: (id: string) => T | undefined, getRecords: () => Iterable<T>) {
+		this.getRecord = getRecord;
+		this.getRecords = getRecords;
+	}
+
+	private get hasSubscribers() {
+		return this.added.size + this.updated.size + this.removed.size > 0;
+	}
+
+	private subscribe<A extends unknown[]>(listeners: Listeners<A>, callback: (...args: A) => void): () => void {
+		if (!this.snapshots) {
+			this.snapshots = new Map();
+			for (const record of this.getRecords()) {
+				this.snapshots.set(record.id, cloneValue(record));
+			}
+		}
+		const unsubscribe = listeners.add(callback);
+
+		return () => {
+			unsubscribe();
+			if (!this.hasSubscribers) {
+				this.snapshots = undefined;
+				this.pending.clear();
+			}
+		};
+	}
+
+	onAdded(callback: AddedCallback<T>) {
+		return this.subscribe(this.added, callback);
+	}
+
+	onUpdated(callback: UpdatedCallback<T>) {
+		return this.subscribe(this.updated, callback);
+	}
+
+	onRemoved(callback: RemovedCallback<T>) {
+		return this.subscribe(this.removed, callback);
+	}
+
+	/**
+	 * Marks a record as changed. Must be called for every added, updated or removed record.
+	 * @param id The id of the record.
+	 */
+	touch(id: string) {
+		if (!this.snapshots) return;
+		this.pending.add(id);
+		if (!this.flushScheduled) {
+			this.flushScheduled = true;
+			getDatabaseEnvironment().run(() => this.flush());
+		}
+	}
+
+	/**
+	 * Notifies subscribers of every change since the last flush, one notification per record.
+	 * A record added and removed within the same tick produces no notification.
+	 */
+	flush() {
+		this.flushScheduled = false;
+		if (!this.snapshots) return;
+
+		const notifications: (() => void)[] = [];
+		for (const id of this.pending) {
+			const previous = this.snapshots.get(id);
+			const next = this.getRecord(id);
+
+			if (next) {
+				this.snapshots.set(id, cloneValue(next));
+			} else {
+				this.snapshots.delete(id);
+			}
+
+			if (!previous && next) {
+				notifications.push(() => this.added.notify(next));
+			} else if (previous && !next) {
+				notifications.push(() => this.removed.notify(previous));
+			} else if (previous && next && !valuesEqual(previous, next)) {
+				notifications.push(() => this.updated.notify(previous, next));
+			}
+		}
+		this.pending.clear();
+
+		notifications.forEach((notify) => notify());
+	}
+}
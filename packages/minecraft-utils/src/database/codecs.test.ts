@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { decodeValue, encodeValue, registerValueCodec, rgbaCodec, vector3Codec } from "./codecs";
+import { DatabaseManager } from "./database";
+import { MemoryStorageAdapter } from "./storage";
+
+function roundTrip<V>(value: V): unknown {
+	return decodeValue(JSON.parse(JSON.stringify(encodeValue(value))));
+}
+
+describe("value codecs", () => {
+	it("round-trips the built-in types", () => {
+		const value = {
+			map: new Map<string, number>([["a", 1]]),
+			set: new Set(["x", "y"]),
+			date: new Date(1700000000000),
+			big: 12345678901234567890n,
+			special: [NaN, Infinity, -Infinity, -0, undefined],
+		};
+		const decoded = roundTrip(value) as typeof value;
+
+		expect(decoded.map).toEqual(value.map);
+		expect(decoded.set).toEqual(value.set);
+		expect(decoded.date.getTime()).toBe(value.date.getTime());
+		expect(decoded.big).toBe(value.big);
+		expect(decoded.special).toEqual([NaN, Infinity, -Infinity, -0, undefined]);
+		expect(Object.is(decoded.special[3], -0)).toBe(true);
+	});
+
+	it("stores vectors and colors as plain objects by default", () => {
+		const value = { location: { x: 1, y: 64, z: -3 }, color: { red: 1, green: 0.5, blue: 0, alpha: 1 } };
+		expect(encodeValue(value)).toEqual(value);
+	});
+
+	it("stores vectors and colors as arrays once their codecs are registered", () => {
+		registerValueCodec(vector3Codec);
+		registerValueCodec(rgbaCodec);
+		const value = { location: { x: 1, y: 64, z: -3 }, color: { red: 1, green: 0.5, blue: 0, alpha: 1 } };
+
+		expect(encodeValue(value)).toEqual({
+			location: { __type__: "Vector3", value: [1, 64, -3] },
+			color: { __type__: "RGBA", value: [1, 0.5, 0, 1] },
+		});
+		expect(roundTrip(value)).toEqual(value);
+	});
+
+	it("leaves objects with more fields than a vector as plain objects", () => {
+		const value = { x: 1, y: 2, z: 3, label: "spawn" };
+		expect(encodeValue(value)).toEqual(value);
+	});
+
+	it("keeps plain objects that use the type key", () => {
+		const value = { __type__: "Map", value: [] };
+		expect(roundTrip(value)).toEqual(value);
+	});
+
+	it("leaves values of unregistered codecs encoded", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		expect(decodeValue({ __type__: "test:missing", value: 1 })).toEqual({ __type__: "test:missing", value: 1 });
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it("refuses a codec id that is already registered", () => {
+		expect(() => registerValueCodec({ id: "Set", test: () => false, encode: (value) => value, decode: (data) => data })).toThrow();
+	});
+
+	it("round-trips records through storage", () => {
+		const manager = new DatabaseManager(new MemoryStorageAdapter());
+		const records = [{ id: "cloud", location: { x: 0.5, y: 70, z: 0.5 }, affectedEntities: new Set(["-1", "-2"]) }];
+		manager.addJSONDatabase("test:clouds", records);
+
+		expect(manager.getJSONDatabase("test:clouds")).toEqual(records);
+	});
+});
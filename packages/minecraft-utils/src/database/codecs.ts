@@ -0,0 +1,189 @@
+import type { RGBA, Vector3 } from "@minecraft/server";
+
+/**
+ * A ValueCodec converts a value that JSON cannot represent into JSON-compatible data and back.
+ * Encoded values are stored as `{ "__type__": id, "value": data }`; the data is encoded recursively,
+ * so it may itself hold values handled by other codecs.
+ */
+export interface ValueCodec<V = unknown, E = unknown> {
+	/** The identifier stored with each encoded value. Must never change once data is saved with it. */
+	id: string;
+	/** Checks whether the codec handles a value. */
+	test(value: unknown): boolean;
+	encode(value: V): E;
+	decode(data: E): V;
+}
+
+const TYPE_KEY = "__type__";
+const VALUE_KEY = "value";
+
+const codecs: ValueCodec[] = [];
+const codecsById = new Map<string, ValueCodec>();
+
+/**
+ * Registers a codec so values of its type round-trip through the database layer.
+ * Codecs are tried in registration order and must stay registered for as long as data written with them needs to load.
+ * @param codec The codec to register.
+ * @example
+ * class Vec3 {
+ * 	constructor(public x: number, public y: number, public z: number) {}
+ * }
+ *
+ * registerValueCodec<Vec3, [number, number, number]>({
+ * 	id: "myproject:vec3",
+ * 	test: (value) => value instanceof Vec3,
+ * 	encode: (value) => [value.x, value.y, value.z],
+ * 	decode: ([x, y, z]) => new Vec3(x, y, z),
+ * });
+ */
+export function registerValueCodec<V, E>(codec: ValueCodec<V, E>): void {
+	if (codecsById.has(codec.id)) {
+		throw new Error(`Value codec ${codec.id} is already registered`);
+	}
+	codecs.push(codec);
+	codecsById.set(codec.id, codec);
+}
+
+function isPlainObject(value: object) {
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Checks if a value is a plain object holding exactly the given numeric fields, such as a Vector3.
+ */
+function hasNumberFields(value: unknown, fields: string[]): value is Record<string, number> {
+	if (!value || typeof value !== "object" || Array.isArray(value) || !isPlainObject(value)) return false;
+	const keys = Object.keys(value);
+	return keys.length === fields.length && fields.every((field) => typeof (value as Record<string, unknown>)[field] === "number");
+}
+
+/**
+ * Converts a value into JSON-compatible data, tagging every value handled by a registered codec.
+ * Object properties set to undefined are left out and class instances without a codec are stored as plain objects, as JSON.stringify does.
+ * @param value The value to encode.
+ * @returns The encoded data.
+ */
+export function encodeValue(value: unknown): unknown {
+	for (const codec of codecs) {
+		if (codec.test(value)) {
+			return { [TYPE_KEY]: codec.id, [VALUE_KEY]: encodeValue(codec.encode(value)) };
+		}
+	}
+
+	if (value === null || typeof value !== "object") return value;
+	if (Array.isArray(value)) return value.map((entry) => encodeValue(entry));
+
+	const encoded: Record<string, unknown> = {};
+	for (const [key, entry] of Object.entries(value)) {
+		if (entry !== undefined) {
+			encoded[key] = encodeValue(entry);
+		}
+	}
+	return encoded;
+}
+
+/**
+ * Restores a value encoded with encodeValue. Data without type tags, such as data saved before codecs existed, is returned as is.
+ * @param data The encoded data.
+ * @returns The decoded value.
+ */
+export function decodeValue(data: unknown): unknown {
+	if (data === null || typeof data !== "object") return data;
+	if (Array.isArray(data)) return data.map((entry) => decodeValue(entry));
+
+	const object = data as Record<string, unknown>;
+	if (typeof object[TYPE_KEY] === "string") {
+		const codec = codecsById.get(object[TYPE_KEY]);
+		if (codec) {
+			return codec.decode(decodeValue(object[VALUE_KEY]));
+		}
+		console.warn(`Value codec ${object[TYPE_KEY]} is not registered, the value is left encoded`);
+		return data;
+	}
+
+	const decoded: Record<string, unknown> = {};
+	for (const [key, entry] of Object.entries(object)) {
+		decoded[key] = decodeValue(entry);
+	}
+	return decoded;
+}
+
+// Plain objects that happen to use the type key are wrapped, so they are not mistaken for encoded values
+registerValueCodec<Record<string, unknown>, Record<string, unknown>>({
+	id: "Object",
+	test: (value) => !!value && typeof value === "object" && !Array.isArray(value) && isPlainObject(value) && TYPE_KEY in value,
+	encode: (value) => {
+		const { [TYPE_KEY]: type, ...rest } = value;
+		return { type, rest };
+	},
+	decode: ({ type, rest }) => ({ [TYPE_KEY]: type, ...(rest as Record<string, unknown>) }),
+});
+
+registerValueCodec<Map<unknown, unknown>, [unknown, unknown][]>({
+	id: "Map",
+	test: (value) => value instanceof Map,
+	encode: (value) => Array.from(value.entries()),
+	decode: (entries) => new Map(entries),
+});
+
+registerValueCodec<Set<unknown>, unknown[]>({
+	id: "Set",
+	test: (value) => value instanceof Set,
+	encode: (value) => Array.from(value),
+	decode: (entries) => new Set(entries),
+});
+
+registerValueCodec<Date, number>({
+	id: "Date",
+	test: (value) => value instanceof Date,
+	encode: (value) => value.getTime(),
+	decode: (time) => new Date(time),
+});
+
+registerValueCodec<bigint, string>({
+	id: "bigint",
+	test: (value) => typeof value === "bigint",
+	encode: (value) => value.toString(),
+	decode: (digits) => BigInt(digits),
+});
+
+// JSON turns NaN and the infinities into null and loses the sign of -0
+registerValueCodec<number, string>({
+	id: "number",
+	test: (value) => typeof value === "number" && (!Number.isFinite(value) || Object.is(value, -0)),
+	encode: (value) => (Object.is(value, -0) ? "-0" : String(value)),
+	decode: (text) => (text === "-0" ? -0 : Number(text)),
+});
+
+// Keeps undefined entries of arrays, which JSON turns into null
+registerValueCodec<undefined, null>({
+	id: "undefined",
+	test: (value) => value === undefined,
+	encode: () => null,
+	decode: () => undefined,
+});
+
+/**
+ * Stores plain Vector3 objects as tagged `[x, y, z]` arrays. Plain vectors already round-trip through JSON, and the tag makes
+ * each one longer, so the codec is not registered by default. Register it to store vectors as arrays,
+ * for example to read data written by another pack that uses it.
+ * @example registerValueCodec(vector3Codec);
+ */
+export const vector3Codec: ValueCodec<Vector3, [number, number, number]> = {
+	id: "Vector3",
+	test: (value) => hasNumberFields(value, ["x", "y", "z"]),
+	encode: ({ x, y, z }) => [x, y, z],
+	decode: ([x, y, z]) => ({ x, y, z }),
+};
+
+/**
+ * Stores plain RGBA objects as tagged `[red, green, blue, alpha]` arrays. Not registered by default, like vector3Codec.
+ * @example registerValueCodec(rgbaCodec);
+ */
+export const rgbaCodec: ValueCodec<RGBA, [number, number, number, number]> = {
+	id: "RGBA",
+	test: (value) => hasNumberFields(value, ["red", "green", "blue", "alpha"]),
+	encode: ({ red, green, blue, alpha }) => [red, green, blue, alpha],
+	decode: ([red, green, blue, alpha]) => ({ red, green, blue, alpha }),
+};
@@ -0,0 +1,245 @@
+/**
+ * A CompressionCodec turns the serialized JSON of a database into a shorter string and back.
+ * The compressed string must only contain characters that survive a string dynamic property.
+ */
+export interface CompressionCodec {
+	/** The identifier stored in the database metadata. */
+	id: string;
+	compress(input: string): string;
+	decompress(input: string): string;
+}
+
+/**
+ * Packs values into 15 bit characters, offset by 32 so the output never contains control or surrogate characters.
+ */
+class BitWriter {
+	private static readonly BITS_PER_CHAR = 15;
+	private static readonly CHAR_OFFSET = 32;
+
+	private data: string[] = [];
+	private value = 0;
+	private position = 0;
+
+	write(value: number, bits: number) {
+		for (let i = 0; i < bits; i++) {
+			this.value = (this.value << 1) | (value & 1);
+			value >>= 1;
+			if (this.position === BitWriter.BITS_PER_CHAR - 1) {
+				this.position = 0;
+				this.data.push(String.fromCharCode(this.value + BitWriter.CHAR_OFFSET));
+				this.value = 0;
+			} else {
+				this.position++;
+			}
+		}
+	}
+
+	flush(): string {
+		while (true) {
+			this.value <<= 1;
+			if (this.position === BitWriter.BITS_PER_CHAR - 1) {
+				this.data.push(String.fromCharCode(this.value + BitWriter.CHAR_OFFSET));
+				break;
+			}
+			this.position++;
+		}
+		return this.data.join("");
+	}
+}
+
+class BitReader {
+	private static readonly RESET_VALUE = 1 << 14;
+	private static readonly CHAR_OFFSET = 32;
+
+	private input: string;
+	private value: number;
+	private position = BitReader.RESET_VALUE;
+	private index = 1;
+
+	constructor(input: string) {
+		this.input = input;
+		this.value = this.charAt(0);
+	}
+
+	get exhausted() {
+		return this.index > this.input.length;
+	}
+
+	private charAt(index: number) {
+		return this.input.charCodeAt(index) - BitReader.CHAR_OFFSET;
+	}
+
+	read(bits: number): number {
+		let result = 0;
+		for (let power = 1; power !== 1 << bits; power <<= 1) {
+			const bit = this.value & this.position;
+			this.position >>= 1;
+			if (this.position === 0) {
+				this.position = BitReader.RESET_VALUE;
+				this.value = this.charAt(this.index++);
+			}
+			if (bit > 0) result |= power;
+		}
+		return result;
+	}
+}
+
+/**
+ * LZCodec is an LZW-family string compressor, compatible with the UTF-16 output of lz-string.
+ * Repetitive JSON such as arrays of records with the same keys usually shrinks to a fraction of its length.
+ */
+class LZCodec implements CompressionCodec {
+	readonly id = "lz";
+
+	compress(input: string): string {
+		if (input.length === 0) return "";
+
+		const dictionary = new Map<string, number>();
+		const pending = new Set<string>();
+		const writer = new BitWriter();
+		let dictSize = 3;
+		let numBits = 2;
+		let enlargeIn = 2;
+		let w = "";
+
+		const growIfNeeded = () => {
+			enlargeIn--;
+			if (enlargeIn === 0) {
+				enlargeIn = 1 << numBits;
+				numBits++;
+			}
+		};
+
+		const emit = (phrase: string) => {
+			if (pending.has(phrase)) {
+				const code = phrase.charCodeAt(0);
+				if (code < 256) {
+					writer.write(0, numBits);
+					writer.write(code, 8);
+				} else {
+					writer.write(1, numBits);
+					writer.write(code, 16);
+				}
+				growIfNeeded();
+				pending.delete(phrase);
+			} else {
+				writer.write(dictionary.get(phrase)!, numBits);
+			}
+			growIfNeeded();
+		};
+
+		for (const c of input.split("")) {
+			if (!dictionary.has(c)) {
+				dictionary.set(c, dictSize++);
+				pending.add(c);
+			}
+
+			const wc = w + c;
+			if (dictionary.has(wc)) {
+				w = wc;
+			} else {
+				emit(w);
+				dictionary.set(wc, dictSize++);
+				w = c;
+			}
+		}
+
+		if (w !== "") {
+			emit(w);
+		}
+
+		writer.write(2, numBits);
+		return writer.flush();
+	}
+
+	decompress(input: string): string {
+		if (input.length === 0) return "";
+
+		const reader = new BitReader(input);
+		const dictionary: string[] = ["", "", ""];
+		let dictSize = 4;
+		let numBits = 3;
+		let enlargeIn = 4;
+
+		let c: string;
+		switch (reader.read(2)) {
+			case 0:
+				c = String.fromCharCode(reader.read(8));
+				break;
+			case 1:
+				c = String.fromCharCode(reader.read(16));
+				break;
+			default:
+				return "";
+		}
+		dictionary[3] = c;
+		let w = c;
+		const result = [c];
+
+		while (true) {
+			if (reader.exhausted) {
+				throw new Error("Compressed data ended unexpectedly");
+			}
+
+			let code = reader.read(numBits);
+			if (code === 0 || code === 1) {
+				dictionary[dictSize++] = String.fromCharCode(reader.read(code === 0 ? 8 : 16));
+				code = dictSize - 1;
+				enlargeIn--;
+			} else if (code === 2) {
+				return result.join("");
+			}
+
+			if (enlargeIn === 0) {
+				enlargeIn = 1 << numBits;
+				numBits++;
+			}
+
+			let entry: string;
+			if (dictionary[code] !== undefined) {
+				entry = dictionary[code];
+			} else if (code === dictSize) {
+				entry = w + w.charAt(0);
+			} else {
+				throw new Error("Compressed data is corrupted");
+			}
+			result.push(entry);
+
+			dictionary[dictSize++] = w + entry.charAt(0);
+			enlargeIn--;
+			w = entry;
+
+			if (enlargeIn === 0) {
+				enlargeIn = 1 << numBits;
+				numBits++;
+			}
+		}
+	}
+}
+
+const codecs = new Map<string, CompressionCodec>();
+
+/**
+ * Registers a compression codec so databases can select it by id.
+ * Codecs must stay registered for as long as databases written with them need to load.
+ * @param codec The codec to register.
+ */
+export function registerCompressionCodec(codec: CompressionCodec): void {
+	codecs.set(codec.id, codec);
+}
+
+/**
+ * Retrieves a registered compression codec.
+ * @param id The codec id.
+ * @returns The codec.
+ * @throws An error if no codec is registered with the id.
+ */
+export function getCompressionCodec(id: string): CompressionCodec {
+	const codec = codecs.get(id);
+	if (!codec) {
+		throw new Error(`Compression codec ${id} is not registered`);
+	}
+	return codec;
+}
+
+registerCompressionCodec(new LZCodec());
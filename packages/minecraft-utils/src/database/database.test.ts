@@ -0,0 +1,448 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DatabaseIntegrityError, DatabaseManager, SimpleDatabase } from "./database";
+import { setDatabaseEnvironment } from "./environment";
+import { SimpleDatabaseOptions, SimpleObject } from "./interfaces";
+import { MemoryEnvironment } from "./memory";
+import { MemoryStorageAdapter, StorageAdapter } from "./storage";
+
+interface Item extends SimpleObject {
+	name: string;
+	count: number;
+}
+
+class TestDatabase<T extends SimpleObject = Item> extends SimpleDatabase<T> {
+	constructor(name: string, target?: StorageAdapter, options: SimpleDatabaseOptions<T> = {}) {
+		super(name, target, options);
+	}
+}
+
+let environment: MemoryEnvironment;
+let storage: MemoryStorageAdapter;
+let opened: SimpleDatabase<SimpleObject>[];
+
+function open<T extends SimpleObject = Item>(options: SimpleDatabaseOptions<T> = {}, name: string = "items"): TestDatabase<T> {
+	const database = new TestDatabase<T>(name, storage, options);
+	opened.push(database);
+	return database;
+}
+
+beforeEach(() => {
+	environment = new MemoryEnvironment();
+	setDatabaseEnvironment(environment);
+	storage = new MemoryStorageAdapter({ maxValueLength: 100 });
+	opened = [];
+});
+
+afterEach(() => {
+	opened.forEach((database) => database.close());
+});
+
+describe("DatabaseManager chunking", () => {
+	it("stores a small database in a single property", () => {
+		const manager = new DatabaseManager(storage);
+		manager.addJSONDatabase("test:small", { text: "hello" });
+
+		expect(storage.getPropertyIds()).toEqual(["test:small"]);
+		expect(manager.getJSONDatabase("test:small")).toEqual({ text: "hello" });
+	});
+
+	it("splits a large database into chunks of a generation", () => {
+		const manager = new DatabaseManager(storage);
+		const data = { text: "x".repeat(250) };
+		manager.addJSONDatabase("test:big", data);
+
+		expect(JSON.parse(storage.getProperty("test:big") as string)).toMatchObject({ __SPLIT__: 3, __GEN__: 1 });
+		expect(storage.getPropertyIds().sort()).toEqual(["test:big", "test:big__g1_0", "test:big__g1_1", "test:big__g1_2"]);
+		expect(manager.getJSONDatabase("test:big")).toEqual(data);
+	});
+
+	it("removes the previous generation once the metadata points at the new one", () => {
+		const manager = new DatabaseManager(storage);
+		manager.addJSONDatabase("test:big", { text: "x".repeat(250) });
+		manager.addJSONDatabase("test:big", { text: "y".repeat(150) });
+
+		expect(storage.getPropertyIds().sort()).toEqual(["test:big", "test:big__g2_0", "test:big__g2_1"]);
+		expect(manager.getJSONDatabase("test:big")).toEqual({ text: "y".repeat(150) });
+	});
+
+	it("keeps the previous snapshot readable when a write fails midway", () => {
+		const manager = new DatabaseManager(storage);
+		manager.addJSONDatabase("test:big", { text: "x".repeat(250) });
+		storage.failWrites(1, (key) => key === "test:big__g2_1");
+
+		expect(() => manager.addJSONDatabase("test:big", { text: "y".repeat(250) })).toThrow();
+		expect(manager.getJSONDatabase("test:big")).toEqual({ text: "x".repeat(250) });
+		expect(manager.sweepOrphanedChunks("test:")).toEqual(["test:big__g2_0"]);
+	});
+
+	it("reads databases chunked before generations existed and replaces their chunks on the next write", () => {
+		const json = JSON.stringify({ text: "z".repeat(150) });
+		storage.setProperty("test:legacy", JSON.stringify({ __SPLIT__: 2 }));
+		storage.setProperty("test:legacy_0", json.slice(0, 100));
+		storage.setProperty("test:legacy_1", json.slice(100));
+		const manager = new DatabaseManager(storage);
+
+		expect(manager.getJSONDatabase("test:legacy")).toEqual({ text: "z".repeat(150) });
+		expect(manager.listJSONDatabases("test:")).toEqual(["test:legacy"]);
+
+		manager.addJSONDatabase("test:legacy", { text: "w".repeat(150) });
+		expect(storage.getPropertyIds().sort()).toEqual(["test:legacy", "test:legacy__g1_0", "test:legacy__g1_1"]);
+		expect(manager.getJSONDatabase("test:legacy")).toEqual({ text: "w".repeat(150) });
+	});
+});
+
+describe("DatabaseManager sweep", () => {
+	it("removes the chunks of a legacy database that no longer points at them", () => {
+		storage.setProperty("test:legacy", JSON.stringify({ __SPLIT__: 1 }));
+		storage.setProperty("test:legacy_0", '{"text":"a');
+		storage.setProperty("test:legacy_1", 'bc"}');
+
+		expect(new DatabaseManager(storage).sweepOrphanedChunks("test:")).toEqual(["test:legacy_1"]);
+		expect(storage.getProperty("test:legacy_0")).toBe('{"text":"a');
+	});
+
+	it("leaves properties that only look like legacy chunks", () => {
+		storage.setProperty("test:spawn", JSON.stringify({ x: 0, y: 64, z: 0 }));
+		storage.setProperty("test:spawn_1", "not json");
+		storage.setProperty("test:score_1", "not json");
+		storage.setProperty("test:location_2", { x: 1, y: 2, z: 3 });
+		storage.setProperty("test:level_3", 3);
+		storage.setProperty("test:enabled_4", true);
+
+		expect(new DatabaseManager(storage).sweepOrphanedChunks("test:")).toEqual([]);
+		expect(storage.getPropertyIds()).toHaveLength(6);
+	});
+
+	it("sweeps the current namespace by default and refuses an empty prefix", () => {
+		storage.setProperty("starktma:big__g3_0", "x");
+		storage.setProperty("other:big__g3_0", "x");
+		const manager = new DatabaseManager(storage);
+
+		expect(() => manager.sweepOrphanedChunks("")).toThrow();
+		expect(manager.sweepOrphanedChunks()).toEqual(["starktma:big__g3_0"]);
+		expect(storage.getProperty("other:big__g3_0")).toBe("x");
+	});
+});
+
+describe("DatabaseManager integrity", () => {
+	// The metadata holds the checksums, and the metadata of the backup
+	beforeEach(() => {
+		storage = new MemoryStorageAdapter({ maxValueLength: 200 });
+	});
+
+	it("detects a corrupted chunk with checksums", () => {
+		const manager = new DatabaseManager(storage);
+		manager.addJSONDatabase("test:sum", { text: "x".repeat(350) }, { checksum: true });
+		expect(manager.verifyJSONDatabase("test:sum")).toBeUndefined();
+
+		storage.setProperty("test:sum__g1_1", "y".repeat(150));
+		const error = manager.verifyJSONDatabase("test:sum");
+		expect(error).toBeInstanceOf(DatabaseIntegrityError);
+		expect(error?.property).toBe("test:sum__g1_1");
+		expect(() => manager.getJSONDatabase("test:sum")).toThrow(DatabaseIntegrityError);
+	});
+
+	it("reads the backup when the current generation is corrupted", () => {
+		const manager = new DatabaseManager(storage);
+		manager.addJSONDatabase("test:backup", { version: 1 }, { checksum: true, backup: true });
+		manager.addJSONDatabase("test:backup", { version: 2 }, { checksum: true, backup: true });
+		expect(storage.getPropertyIds().sort()).toEqual(["test:backup", "test:backup__g1_0", "test:backup__g2_0"]);
+
+		storage.setProperty("test:backup__g2_0", "{}");
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		expect(manager.getJSONDatabase("test:backup")).toEqual({ version: 1 });
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it("does not verify the previous generation again when the same manager wrote it", () => {
+		const manager = new DatabaseManager(storage);
+		manager.addJSONDatabase("test:backup", { version: 1 }, { checksum: true, backup: true });
+		const reads = vi.spyOn(storage, "getProperty");
+		manager.addJSONDatabase("test:backup", { version: 2 }, { checksum: true, backup: true });
+
+		expect(reads.mock.calls.map(([key]) => key)).not.toContain("test:backup__g1_0");
+		expect(storage.getPropertyIds().sort()).toEqual(["test:backup", "test:backup__g1_0", "test:backup__g2_0"]);
+	});
+
+	it("does not keep a corrupted generation written elsewhere as the backup", () => {
+		new DatabaseManager(storage).addJSONDatabase("test:backup", { version: 1 }, { checksum: true, backup: true });
+		new DatabaseManager(storage).addJSONDatabase("test:backup", { version: 2 }, { checksum: true, backup: true });
+		storage.setProperty("test:backup__g2_0", "{}");
+		new DatabaseManager(storage).addJSONDatabase("test:backup", { version: 3 }, { checksum: true, backup: true });
+
+		expect(storage.getPropertyIds().sort()).toEqual(["test:backup", "test:backup__g1_0", "test:backup__g3_0"]);
+	});
+
+	it("keeps at most one backup generation", () => {
+		const manager = new DatabaseManager(storage);
+		for (let version = 1; version <= 4; version++) {
+			manager.addJSONDatabase("test:backup", { version }, { checksum: true, backup: true });
+		}
+		expect(storage.getPropertyIds().sort()).toEqual(["test:backup", "test:backup__g3_0", "test:backup__g4_0"]);
+	});
+});
+
+describe("SimpleDatabase", () => {
+	it("reloads what it saved", () => {
+		const database = open({ persistence: { mode: "immediate" } });
+		database.addObject({ id: "a", name: "apple", count: 3 });
+		database.addObject({ id: "b", name: "b".repeat(150), count: 2 });
+		database.close();
+
+		expect(storage.getPropertyIds()).toContain("starktma:items__g1_1");
+		expect(open().getAllObjects()).toEqual([
+			{ id: "a", name: "apple", count: 3 },
+			{ id: "b", name: "b".repeat(150), count: 2 },
+		]);
+	});
+
+	it("saves a debounced database once the delay passed since the last change", () => {
+		const database = open({ persistence: { mode: "debounced", delay: 10 } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		environment.tick(5);
+		database.updateObject({ id: "a", name: "apple", count: 2 });
+		environment.tick(9);
+		expect(database.isDirty()).toBe(true);
+
+		environment.tick(1);
+		expect(database.isDirty()).toBe(false);
+		expect(new DatabaseManager(storage).getJSONDatabase("starktma:items")).toEqual([{ id: "a", name: "apple", count: 2 }]);
+	});
+
+	it("saves a debounced database written every tick at the latest after the maximum wait", () => {
+		const database = open({ persistence: { mode: "debounced", delay: 10, maxWait: 50 } });
+		for (let count = 1; count <= 2000; count++) {
+			database.updateObject({ id: "a", name: "apple", count });
+			environment.tick();
+		}
+
+		expect(database.getSaveStats().saves).toBeGreaterThanOrEqual(2000 / 50);
+		const stored = new DatabaseManager(storage).getJSONDatabase("starktma:items") as Item[];
+		expect(stored[0].count).toBeGreaterThan(2000 - 50);
+	});
+
+	it("saves every dirty database on shutdown", () => {
+		const database = open({ persistence: { mode: "manual" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		environment.shutdown();
+
+		expect(database.isDirty()).toBe(false);
+	});
+
+	it("rolls back a transaction that throws", () => {
+		const database = open({ persistence: { mode: "immediate" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+
+		expect(() =>
+			database.transaction(() => {
+				database.updateObject({ id: "a", name: "apple", count: 2 });
+				throw new Error("cancelled");
+			})
+		).toThrow("cancelled");
+		expect(database.getObject("a")?.count).toBe(1);
+	});
+});
+
+describe("SimpleDatabase expiry", () => {
+	it("hides expired objects from reads without writing", () => {
+		const database = open<Item>({ persistence: { mode: "manual" }, indexes: ["name"] });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.addObject({ id: "b", name: "apple", count: 2 });
+		database.expireIn("a", 5);
+		database.forceSave();
+		environment.worldTime += 5;
+
+		expect(database.hasObject("a")).toBe(false);
+		expect(database.getObject("a")).toBeUndefined();
+		expect(database.getAllObjects().map((object) => object.id)).toEqual(["b"]);
+		expect(database.findBy("name", "apple").map((object) => object.id)).toEqual(["b"]);
+		expect(database.query().count()).toBe(1);
+		expect(database.isDirty()).toBe(false);
+	});
+
+	it("removes expired objects on the sweep and reports them", () => {
+		const database = open({ persistence: { mode: "manual" } });
+		const expired = vi.fn();
+		database.onExpired(expired);
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.expireIn("a", 5);
+		environment.tick(21);
+
+		expect(expired).toHaveBeenCalledWith({ id: "a", name: "apple", count: 1 });
+		expect(database.getExpiry("a")).toBeUndefined();
+		expect(database.isDirty()).toBe(true);
+	});
+
+	it("removes expired objects when saving", () => {
+		const database = open({ persistence: { mode: "manual" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.addObject({ id: "b", name: "bread", count: 2 });
+		database.expireIn("a", 5);
+		environment.worldTime += 5;
+		database.forceSave();
+
+		const manager = new DatabaseManager(storage);
+		expect(manager.getJSONDatabase("starktma:items")).toEqual([{ id: "b", name: "bread", count: 2 }]);
+		expect(manager.getExpiries("starktma:items")).toEqual({});
+	});
+
+	it("keeps expiries in world time across reloads", () => {
+		const database = open({ persistence: { mode: "manual" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.expireIn("a", 100);
+		database.close();
+
+		environment.worldTime += 40;
+		expect(open().getRemainingTicks("a")).toBe(60);
+	});
+
+	it("stores the remaining ticks with the tick clock, since the current tick restarts with the world", () => {
+		const database = open({ persistence: { mode: "manual" }, expiryClock: "tick" });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.expireIn("a", 100);
+		environment.worldTime += 1000;
+		expect(database.hasObject("a")).toBe(true);
+		environment.currentTick += 30;
+		database.close();
+
+		expect(new DatabaseManager(storage).getExpiries("starktma:items")).toEqual({ a: 70 });
+		environment.currentTick = 0;
+		const reloaded = open({ expiryClock: "tick" });
+		expect(reloaded.getExpiry("a")).toBe(70);
+		expect(reloaded.getRemainingTicks("a")).toBe(70);
+	});
+
+	it("does not keep the expiry of an expired object that is written again", () => {
+		const database = open({ persistence: { mode: "manual" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.expireIn("a", 5);
+		environment.worldTime += 5;
+		database.updateObject({ id: "a", name: "apple", count: 2 });
+
+		expect(database.getObject("a")?.count).toBe(2);
+		expect(database.getExpiry("a")).toBeUndefined();
+	});
+});
+
+describe("SimpleDatabase history", () => {
+	beforeEach(() => {
+		storage = new MemoryStorageAdapter();
+	});
+
+	it("restores an earlier entry by its sequence number and logs the restore", () => {
+		const database = open({ persistence: { mode: "manual" }, history: {} });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		environment.tick();
+		database.updateObject({ id: "a", name: "apple", count: 2 });
+		environment.tick();
+
+		database.restoreHistory(1);
+		expect(database.getObject("a")?.count).toBe(1);
+		expect(database.getHistory().map((entry) => entry.reason)).toEqual(["change", "change", "restore 1"]);
+	});
+
+	it("restores to a world time through the entry made at or before it", () => {
+		const database = open({ persistence: { mode: "manual" }, history: {} });
+		environment.worldTime = 1000;
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		environment.tick(100);
+		database.updateObject({ id: "a", name: "apple", count: 2 });
+		environment.tick();
+
+		expect(database.restoreToWorldTime(1050)).toBe(1);
+		expect(database.getObject("a")?.count).toBe(1);
+		expect(() => database.restoreToWorldTime(10)).toThrow();
+	});
+
+	it("keeps the history across reloads", () => {
+		const database = open({ persistence: { mode: "manual" }, history: {} });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		environment.tick();
+		database.close();
+
+		expect(open({ history: {} }).getHistory()).toEqual([{ seq: 1, worldTime: 0, time: expect.any(Number), reason: "change", ids: ["a"] }]);
+	});
+});
+
+describe("SimpleDatabase migrations", () => {
+	it("migrates stored records to the current version once", () => {
+		new DatabaseManager(storage).addJSONDatabase("starktma:items", [{ id: "a", label: "apple" }]);
+		const migration = vi.fn((record: Record<string, unknown>) => ({ id: record.id, name: record.label, count: 0 }));
+
+		expect(open({ migrations: [migration] }).getAllObjects()).toEqual([{ id: "a", name: "apple", count: 0 }]);
+		expect(open({ migrations: [migration] }).getAllObjects()).toHaveLength(1);
+		expect(migration).toHaveBeenCalledTimes(1);
+	});
+
+	it("fails the migration of a record that is not an object without calling it", () => {
+		new DatabaseManager(storage).addJSONDatabase("starktma:items", ["apple"]);
+		const migration = vi.fn((record: Record<string, unknown>) => record);
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		const database = open({ migrations: [migration] });
+		error.mockRestore();
+
+		expect(database.getMigrationError()?.message).toBe("Record 0 is not an object");
+		expect(migration).not.toHaveBeenCalled();
+		expect(new DatabaseManager(storage).getJSONDatabase("starktma:items")).toEqual(["apple"]);
+	});
+
+	it("refuses stored data that is not a list of records", () => {
+		new DatabaseManager(storage).addJSONDatabase("starktma:items", { id: "a" });
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		const database = open();
+		error.mockRestore();
+
+		expect(database.getIntegrityError()?.message).toBe("starktma:items is not a list of records");
+		expect(database.getAllObjects()).toEqual([]);
+	});
+});
+
+describe("SimpleDatabase record storage", () => {
+	it("stores each record next to a manifest of ids", () => {
+		const database = open({ storage: "record", persistence: { mode: "immediate" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.addObject({ id: "b", name: "bread", count: 2 });
+
+		expect(JSON.parse(storage.getProperty("starktma:items") as string)).toEqual({ __RECORDS__: ["a", "b"] });
+		expect(JSON.parse(storage.getProperty("starktma:items#a") as string)).toEqual({ id: "a", name: "apple", count: 1 });
+		expect(new DatabaseManager(storage).getJSONDatabase("starktma:items")).toHaveLength(2);
+	});
+
+	it("only writes the records that changed", () => {
+		const database = open({ storage: "record", persistence: { mode: "immediate" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.addObject({ id: "b", name: "bread", count: 2 });
+
+		const writes = vi.spyOn(storage, "setProperty");
+		database.updateObject({ id: "b", name: "bread", count: 3 });
+		expect(writes.mock.calls.map(([key]) => key)).toEqual(["starktma:items#b"]);
+	});
+
+	it("removes the property of a removed record", () => {
+		const database = open({ storage: "record", persistence: { mode: "immediate" } });
+		database.addObject({ id: "a", name: "apple", count: 1 });
+		database.addObject({ id: "b", name: "bread", count: 2 });
+		database.removeObject("a");
+
+		expect(storage.getProperty("starktma:items#a")).toBeUndefined();
+		expect(JSON.parse(storage.getProperty("starktma:items") as string)).toEqual({ __RECORDS__: ["b"] });
+	});
+
+	it("switches a database stored as a single value over to records", () => {
+		const single = open({ persistence: { mode: "immediate" } });
+		single.addObject({ id: "a", name: "apple", count: 1 });
+		single.close();
+
+		const records = open({ storage: "record", persistence: { mode: "immediate" } });
+		records.addObject({ id: "b", name: "bread", count: 2 });
+		expect(storage.getPropertyIds().sort()).toEqual(["starktma:items", "starktma:items#a", "starktma:items#b", "starktma:items__version"]);
+		records.close();
+
+		expect(
+			open({ storage: "record" })
+				.getAllObjects()
+				.map((object) => object.id)
+		).toEqual(["a", "b"]);
+	});
+});
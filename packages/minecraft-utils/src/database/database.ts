@@ -1,22 +1,334 @@
-import { Entity, system, world, World } from "@minecraft/server";
-import { SimpleObject } from "./interfaces";
+import type { Entity } from "@minecraft/server";
+import {
+	CompressionStats,
+	DatabaseUsage,
+	ExpiryClock,
+	HistoryDiff,
+	HistoryEntryInfo,
+	HistoryOptions,
+	InvalidRecordPolicy,
+	JSONDatabaseOptions,
+	Migration,
+	PersistencePolicy,
+	QuarantinedRecord,
+	SaveStats,
+	SimpleDatabaseOptions,
+	SimpleObject,
+	StorageMode,
+	StorageReport,
+	StorageTarget,
+} from "./interfaces";
+import { getCompressionCodec } from "./compression";
+import { decodeValue, encodeValue } from "./codecs";
+import { Query } from "./query";
+import { AddedCallback, ChangeNotifier, ExpiredCallback, Listeners, RemovedCallback, UpdatedCallback } from "./changes";
+import { ChangeHistory, isStoredHistory, StoredHistory } from "./history";
+import { checksum, cloneValue, getPropertyByteCount } from "./utils";
+import { Schema, SchemaIssue, SchemaValidationError } from "./schema";
+import { createStorageAdapter, isStorageAdapter, StorageAdapter } from "./storage";
 import { getNamespace } from "../constants";
+import { DatabaseEnvironment, getDatabaseEnvironment } from "./environment";
 
 /**
- * DatabaseManager is a class that manages databases stored in Minecraft's world properties.
- * Currently only supports JSON databases.
+ * The metadata record stored in place of a database that is split into chunks.
+ */
+interface ChunkMeta {
+	chunks: number;
+	/** Undefined for databases written before generations existed, whose chunks have no generation suffix. */
+	generation?: number;
+	codec?: string;
+	rawLength?: number;
+	/** The checksum of the stored string, undefined for databases written before checksums existed. */
+	checksum?: number;
+	chunkChecksums?: number[];
+	/** The previous generation, kept as a backup when verified. */
+	backup?: ChunkMeta;
+}
+
+/**
+ * DatabaseIntegrityError is thrown when a stored database fails verification:
+ * a chunk is missing or does not match its checksum, or the data cannot be parsed.
+ */
+class DatabaseIntegrityError extends Error {
+	readonly databaseName: string;
+	/** The property that failed, such as a chunk, or undefined if the database as a whole failed. */
+	readonly property: string | undefined;
+
+	constructor(databaseName: string, property: string | undefined, message: string) {
+		super(message);
+		this.name = "DatabaseIntegrityError";
+		this.databaseName = databaseName;
+		this.property = property;
+	}
+}
+
+/**
+ * DatabaseManager is a class that manages databases stored in Minecraft's dynamic properties.
+ * Databases can be stored on the world, an entity, a non-stackable item or a block location,
+ * or in any other store through a StorageAdapter.
+ * Currently only supports JSON databases. Values JSON cannot represent, such as Map, Set, Date and bigint,
+ * are stored through the codecs registered with registerValueCodec.
+ *
+ * Chunked databases are written in generations: the new chunks are written under a new generation suffix,
+ * then the metadata is switched to point at them, then the previous generation is removed.
+ * A reader therefore always sees either the complete old snapshot or the complete new one.
  */
 class DatabaseManager {
-	private static readonly DYNAMIC_PROP_MAX_LENGTH = 32767;
 	private static readonly CHUNK_KEY = "__SPLIT__";
+	private static readonly GENERATION_KEY = "__GEN__";
+	private static readonly CODEC_KEY = "__CODEC__";
+	private static readonly RAW_LENGTH_KEY = "__RAW__";
+	private static readonly CHECKSUM_KEY = "__SUM__";
+	private static readonly CHUNK_CHECKSUMS_KEY = "__SUMS__";
+	private static readonly BACKUP_KEY = "__BACKUP__";
+	private static readonly VERSION_SUFFIX = "__version";
+	private static readonly EXPIRY_SUFFIX = "__expiry";
+	private static readonly RECORDS_KEY = "__RECORDS__";
+	private static readonly GENERATION_CHUNK_PATTERN = /__g\d+_\d+$/;
+	private static readonly LEGACY_CHUNK_PATTERN = /_\d+$/;
 
-	private target: Entity | World;
+	private storage: StorageAdapter;
+	/** The last generation of each database written by this manager, which backup rotation trusts without verifying it again. */
+	private writtenGenerations: Map<string, number> = new Map();
 
-	constructor(target: Entity | undefined) {
-		if (target instanceof Entity) {
-			this.target = target;
-		} else {
-			this.target = world;
+	/**
+	 * @param target Where the databases are stored, or the adapter of another store. If undefined, the world is used.
+	 * Items keep their data when moved or dropped, but an ItemStack is a copy: after writing,
+	 * the item must be set back into its container for the data to be kept.
+	 * @throws An error if the target is a stackable item, which cannot hold dynamic properties.
+	 */
+	constructor(target: StorageTarget | StorageAdapter | undefined) {
+		this.storage = isStorageAdapter(target) ? target : createStorageAdapter(target);
+	}
+
+	/**
+	 * The id of the store the databases are kept in: the entity id, "world", `item|<id>` for items
+	 * or the block key for block locations.
+	 */
+	get targetId(): string {
+		return this.storage.id;
+	}
+
+	/**
+	 * Checks if the store can still be read and written, which is false once the entity it belongs to was removed.
+	 */
+	get isValid(): boolean {
+		return this.storage.isValid?.() ?? true;
+	}
+
+	/**
+	 * Reads the chunk metadata of a database.
+	 * @param databaseName The name of the database.
+	 * @returns The metadata, or undefined if the database is missing or stored in a single property.
+	 */
+	private getChunkMeta(databaseName: string): ChunkMeta | undefined {
+		const propString = this.storage.getProperty(databaseName) as string | undefined;
+		if (!propString) return undefined;
+		try {
+			return this.parseChunkMeta(JSON.parse(propString));
+		} catch {}
+		return undefined;
+	}
+
+	/**
+	 * Reads chunk metadata from a parsed property. Fields of the wrong type are left out,
+	 * and a chunk count of the wrong type counts as no chunks, so the database fails to parse instead of being misread.
+	 */
+	private parseChunkMeta(propObj: unknown): ChunkMeta | undefined {
+		if (!propObj || typeof propObj !== "object" || !(DatabaseManager.CHUNK_KEY in propObj)) return undefined;
+		const fields = propObj as Record<string, unknown>;
+		const number = (value: unknown) => (typeof value === "number" ? value : undefined);
+		const chunkChecksums = fields[DatabaseManager.CHUNK_CHECKSUMS_KEY];
+		const codec = fields[DatabaseManager.CODEC_KEY];
+		return {
+			chunks: number(fields[DatabaseManager.CHUNK_KEY]) ?? 0,
+			generation: number(fields[DatabaseManager.GENERATION_KEY]),
+			codec: typeof codec === "string" ? codec : undefined,
+			rawLength: number(fields[DatabaseManager.RAW_LENGTH_KEY]),
+			checksum: number(fields[DatabaseManager.CHECKSUM_KEY]),
+			chunkChecksums: Array.isArray(chunkChecksums) ? chunkChecksums.map((sum) => number(sum) ?? NaN) : undefined,
+			backup: this.parseChunkMeta(fields[DatabaseManager.BACKUP_KEY]),
+		};
+	}
+
+	private serializeChunkMeta(meta: ChunkMeta): Record<string, unknown> {
+		const propObj: Record<string, unknown> = { [DatabaseManager.CHUNK_KEY]: meta.chunks };
+		if (meta.generation !== undefined) {
+			propObj[DatabaseManager.GENERATION_KEY] = meta.generation;
+		}
+		if (meta.codec !== undefined) {
+			propObj[DatabaseManager.CODEC_KEY] = meta.codec;
+			propObj[DatabaseManager.RAW_LENGTH_KEY] = meta.rawLength!;
+		}
+		if (meta.checksum !== undefined) {
+			propObj[DatabaseManager.CHECKSUM_KEY] = meta.checksum;
+		}
+		// A single chunk is covered by the checksum of the whole database
+		if (meta.chunkChecksums && meta.chunks > 1) {
+			propObj[DatabaseManager.CHUNK_CHECKSUMS_KEY] = meta.chunkChecksums;
+		}
+		if (meta.backup) {
+			propObj[DatabaseManager.BACKUP_KEY] = this.serializeChunkMeta(meta.backup);
+		}
+		return propObj;
+	}
+
+	private setChunkMeta(databaseName: string, meta: ChunkMeta) {
+		this.storage.setProperty(databaseName, JSON.stringify(this.serializeChunkMeta(meta)));
+	}
+
+	private getChunkName(databaseName: string, generation: number | undefined, index: number) {
+		return generation === undefined ? `${databaseName}_${index}` : `${databaseName}__g${generation}_${index}`;
+	}
+
+	private removeChunks(databaseName: string, meta: ChunkMeta | undefined) {
+		if (!meta) return;
+		for (let i = 0; i < meta.chunks; i++) {
+			this.storage.setProperty(this.getChunkName(databaseName, meta.generation, i), undefined);
+		}
+	}
+
+	/**
+	 * Maps every database on the target to the properties it owns: chunks, records, the schema version and record expiries.
+	 * @param ids The property ids to consider.
+	 * @returns The properties owned by each database.
+	 */
+	private getOwnedProperties(ids: string[]): Map<string, string[]> {
+		const owned = new Map<string, string[]>();
+		const idSet = new Set(ids);
+		for (const id of ids) {
+			if (typeof this.storage.getProperty(id) !== "string") continue;
+			const properties: string[] = [];
+			const meta = this.getChunkMeta(id);
+			for (let i = 0; meta && i < meta.chunks; i++) {
+				properties.push(this.getChunkName(id, meta.generation, i));
+			}
+			for (let i = 0; meta?.backup && i < meta.backup.chunks; i++) {
+				properties.push(this.getChunkName(id, meta.backup.generation, i));
+			}
+			for (const recordId of this.getRecordIds(id) ?? []) {
+				properties.push(this.getRecordName(id, recordId));
+			}
+			for (const suffix of [DatabaseManager.VERSION_SUFFIX, DatabaseManager.EXPIRY_SUFFIX]) {
+				if (idSet.has(id + suffix)) {
+					properties.push(id + suffix);
+				}
+			}
+			owned.set(id, properties);
+		}
+		return owned;
+	}
+
+	/**
+	 * Lists the JSON databases stored on the target.
+	 * Properties that belong to another database, such as chunks, records and schema versions, are not listed.
+	 * @param prefix Only databases whose name starts with the prefix are listed, such as the current namespace.
+	 * @returns The database names.
+	 */
+	listJSONDatabases(prefix: string = ""): string[] {
+		const ids = this.storage.getPropertyIds().filter((id) => id.startsWith(prefix));
+		const owned = this.getOwnedProperties(ids);
+		const derived = new Set(Array.from(owned.values()).flat());
+		return Array.from(owned.keys()).filter((id) => !derived.has(id) && !DatabaseManager.GENERATION_CHUNK_PATTERN.test(id));
+	}
+
+	/**
+	 * Reports the storage used by each database on the target, including its chunks, records and schema version.
+	 * Sizes count the UTF-8 bytes of the property ids and values, so they are an approximation of what the game stores.
+	 * @param prefix Only databases whose name starts with the prefix are reported, such as the current namespace.
+	 * @returns The storage report.
+	 */
+	getStorageReport(prefix: string = ""): StorageReport {
+		const allIds = this.storage.getPropertyIds();
+		const owned = this.getOwnedProperties(allIds.filter((id) => id.startsWith(prefix)));
+		const databases: DatabaseUsage[] = this.listJSONDatabases(prefix).map((name) => {
+			const properties = [name, ...this.collectProperties(name, owned)].map((id) => ({
+				id,
+				bytes: getPropertyByteCount(id, this.storage.getProperty(id)),
+			}));
+			return { name, bytes: properties.reduce((total, property) => total + property.bytes, 0), properties };
+		});
+
+		return {
+			targetId: this.targetId,
+			totalBytes: this.storage.getTotalByteCount(),
+			databaseBytes: databases.reduce((total, database) => total + database.bytes, 0),
+			databases: databases.sort((a, b) => b.bytes - a.bytes),
+		};
+	}
+
+	private collectProperties(id: string, owned: Map<string, string[]>): string[] {
+		return (owned.get(id) ?? []).flatMap((property) => [property, ...this.collectProperties(property, owned)]);
+	}
+
+	/**
+	 * Finds and removes chunk properties that no valid metadata record points at, such as the leftovers of an
+	 * interrupted write or of a database whose metadata was corrupted.
+	 *
+	 * Generation chunks are recognised by their name. Chunks written before generations existed share their naming
+	 * with ordinary properties such as `myproject:spawn_1`, so they are only removed if they hold a string that is not
+	 * valid JSON on its own, and their base name is a chunked database that no longer points at them.
+	 * Records of a per-record database, and schema versions and expiries whose database no longer exists, are removed as well.
+	 * Only string values are considered, except for schema versions which are numbers.
+	 * @param prefix Only properties whose id starts with the prefix are swept, the current namespace by default.
+	 * @param dryRun If true, nothing is removed.
+	 * @returns The ids of the orphaned properties.
+	 * @throws An error if the prefix is empty, which would sweep the properties of every other add-on.
+	 */
+	sweepOrphanedChunks(prefix: string = `${getNamespace()}:`, dryRun: boolean = false): string[] {
+		if (prefix === "") {
+			throw new Error("Sweeping orphaned chunks requires a prefix, such as the namespace of the databases");
+		}
+		const ids = this.storage.getPropertyIds().filter((id) => id.startsWith(prefix));
+		const owned = this.getOwnedProperties(ids);
+		const derived = new Set(Array.from(owned.values()).flat());
+		const manifests = new Set(Array.from(owned.keys()).filter((id) => this.getRecordIds(id) !== undefined));
+
+		const orphans = ids.filter((id) => {
+			if (derived.has(id)) return false;
+			const value = this.storage.getProperty(id);
+			if (id.endsWith(DatabaseManager.VERSION_SUFFIX)) {
+				return typeof value === "number" && !owned.has(id.slice(0, -DatabaseManager.VERSION_SUFFIX.length));
+			}
+			if (typeof value !== "string") return false;
+			if (DatabaseManager.GENERATION_CHUNK_PATTERN.test(id)) return true;
+			if (id.endsWith(DatabaseManager.EXPIRY_SUFFIX)) {
+				return !owned.has(id.slice(0, -DatabaseManager.EXPIRY_SUFFIX.length));
+			}
+			const separator = id.lastIndexOf("#");
+			if (separator > -1 && manifests.has(id.slice(0, separator))) return true;
+			if (DatabaseManager.LEGACY_CHUNK_PATTERN.test(id)) {
+				return this.isLegacyChunkOrphan(id, value);
+			}
+			return false;
+		});
+
+		// An orphaned expiry list takes its chunks with it
+		orphans.push(...orphans.flatMap((id) => (id.endsWith(DatabaseManager.EXPIRY_SUFFIX) ? this.collectProperties(id, owned) : [])));
+
+		if (!dryRun) {
+			orphans.forEach((id) => this.storage.setProperty(id, undefined));
+		}
+		return orphans;
+	}
+
+	/**
+	 * Checks if a property named like a chunk written before generations existed is a leftover of its database.
+	 * No metadata points at the chunk at this point, so it is a leftover if its base name holds chunk metadata,
+	 * or holds nothing but left a schema version behind, and the value cannot be a database of its own.
+	 */
+	private isLegacyChunkOrphan(id: string, value: string): boolean {
+		const baseName = id.replace(DatabaseManager.LEGACY_CHUNK_PATTERN, "");
+		const isDatabase =
+			this.storage.getProperty(baseName) === undefined
+				? typeof this.storage.getProperty(baseName + DatabaseManager.VERSION_SUFFIX) === "number"
+				: this.getChunkMeta(baseName) !== undefined;
+		if (!isDatabase) return false;
+		try {
+			JSON.parse(value);
+			return false;
+		} catch {
+			return true;
 		}
 	}
 
@@ -26,110 +338,429 @@ class DatabaseManager {
 	 * @returns True if the database exists, false otherwise.
 	 */
 	hasJSONDatabase(databaseName: string) {
-		return this.target.getDynamicProperty(databaseName) !== undefined;
+		return this.storage.getProperty(databaseName) !== undefined;
 	}
 
 	/**
 	 * Adds a new JSON database with the given name and data.
+	 * Compressed databases, and databases written with a checksum or a backup, are always stored in chunks,
+	 * so the metadata can record the codec and the checksums.
+	 * With a backup, the previous generation is kept next to the new one if it still verifies,
+	 * which is only checked if this manager did not write it.
 	 * @param databaseName The name of the database.
 	 * @param database The data to be stored in the database.
+	 * @param options The compression codec to store the data with, and whether to keep a checksum and a backup.
 	 */
-	addJSONDatabase(databaseName: string, database: object) {
-		const jsonString = JSON.stringify(database);
-		const existingProp = this.target.getDynamicProperty(databaseName) as string | undefined;
-		let existingChunks = 0;
+	addJSONDatabase(databaseName: string, database: object, options: JSONDatabaseOptions = {}) {
+		const jsonString = JSON.stringify(encodeValue(database));
+		const existingMeta = this.getChunkMeta(databaseName);
+		const codec = options.compression ? getCompressionCodec(options.compression) : undefined;
+		let kept: ChunkMeta | undefined;
 
-		if (existingProp) {
-			try {
-				const propObj = JSON.parse(existingProp);
-				if (propObj && typeof propObj === "object" && DatabaseManager.CHUNK_KEY in propObj) {
-					existingChunks = propObj[DatabaseManager.CHUNK_KEY];
-				}
-			} catch {}
-		}
-		if (jsonString.length <= DatabaseManager.DYNAMIC_PROP_MAX_LENGTH || jsonString.length === 0) {
-			if (existingChunks > 0) {
-				for (let i = 0; i < existingChunks; i++) {
-					const partName = `${databaseName}_${i}`;
-					this.target.setDynamicProperty(partName, undefined);
-				}
-			}
-			this.target.setDynamicProperty(databaseName, jsonString);
+		if (!codec && !options.checksum && !options.backup && (jsonString.length <= this.storage.maxValueLength || jsonString.length === 0)) {
+			this.storage.setProperty(databaseName, jsonString);
+			this.writtenGenerations.delete(databaseName);
 		} else {
-			const chunkSize = DatabaseManager.DYNAMIC_PROP_MAX_LENGTH;
-			const chunkCount = Math.ceil(jsonString.length / chunkSize);
-			if (existingChunks > 0) {
-				for (let i = 0; i < existingChunks; i++) {
-					const oldPartName = `${databaseName}_${i}`;
-					this.target.setDynamicProperty(oldPartName, undefined);
-				}
-			}
+			const stored = codec ? codec.compress(jsonString) : jsonString;
+			const chunkSize = this.storage.maxValueLength;
+			const chunkCount = Math.max(1, Math.ceil(stored.length / chunkSize));
+			const generation = (existingMeta?.generation ?? 0) + 1;
+			const chunkChecksums: number[] = [];
 			for (let i = 0; i < chunkCount; i++) {
 				const start = i * chunkSize;
 				const end = start + chunkSize;
-				const chunk = jsonString.slice(start, end);
-				const partName = `${databaseName}_${i}`;
-				this.target.setDynamicProperty(partName, chunk);
+				const chunk = stored.slice(start, end);
+				this.storage.setProperty(this.getChunkName(databaseName, generation, i), chunk);
+				chunkChecksums.push(checksum(chunk));
+			}
+
+			if (options.backup && existingMeta) {
+				// A corrupted generation is never kept as the backup, the older backup is kept instead.
+				// A generation written by this manager is not read back, so frequent saves do not verify every chunk.
+				const written = existingMeta.generation !== undefined && this.writtenGenerations.get(databaseName) === existingMeta.generation;
+				kept = written || this.verifyChunks(databaseName, existingMeta) === undefined ? existingMeta : existingMeta.backup;
+			}
+			this.setChunkMeta(databaseName, {
+				chunks: chunkCount,
+				generation,
+				codec: codec?.id,
+				rawLength: jsonString.length,
+				checksum: checksum(stored),
+				chunkChecksums,
+				backup: kept && { ...kept, backup: undefined },
+			});
+			this.writtenGenerations.set(databaseName, generation);
+		}
+
+		// The metadata no longer points at the previous generations, so they can be collected.
+		if (existingMeta) {
+			for (const meta of [existingMeta, existingMeta.backup]) {
+				if (meta && meta !== kept) {
+					this.removeChunks(databaseName, meta);
+				}
 			}
-			const meta = { [DatabaseManager.CHUNK_KEY]: chunkCount };
-			this.target.setDynamicProperty(databaseName, JSON.stringify(meta));
 		}
 	}
 
 	/**
-	 * Removes a JSON database with the given name.
+	 * Removes a JSON database with the given name, including its records if it is stored per record and its record expiries.
 	 * @param databaseName The name of the database.
 	 */
 	removeJSONDatabase(databaseName: string) {
-		const propString = this.target.getDynamicProperty(databaseName) as string | undefined;
-		if (propString !== undefined) {
-			try {
-				const propObj = JSON.parse(propString);
-				if (propObj && typeof propObj === "object" && DatabaseManager.CHUNK_KEY in propObj) {
-					const chunkCount = propObj[DatabaseManager.CHUNK_KEY];
-					for (let i = 0; i < chunkCount; i++) {
-						const partName = `${databaseName}_${i}`;
-						this.target.setDynamicProperty(partName, undefined);
-					}
+		if (this.hasJSONDatabase(databaseName)) {
+			const recordIds = this.getRecordIds(databaseName);
+			if (recordIds) {
+				this.removeRecords(databaseName, recordIds);
+			}
+			const meta = this.getChunkMeta(databaseName);
+			this.removeChunks(databaseName, meta);
+			this.removeChunks(databaseName, meta?.backup);
+			this.storage.setProperty(databaseName, undefined);
+			this.writtenGenerations.delete(databaseName);
+			this.storage.setProperty(databaseName + DatabaseManager.VERSION_SUFFIX, undefined);
+			this.removeJSONDatabase(databaseName + DatabaseManager.EXPIRY_SUFFIX);
+		}
+	}
+
+	private getRecordName(databaseName: string, id: string) {
+		return `${databaseName}#${id}`;
+	}
+
+	private isRecordManifest(data: unknown): data is { [key: string]: string[] } {
+		return !!data && typeof data === "object" && !Array.isArray(data) && DatabaseManager.RECORDS_KEY in data;
+	}
+
+	/**
+	 * Retrieves the ids listed in the manifest of a database stored per record.
+	 * @param databaseName The name of the database.
+	 * @returns The record ids, or undefined if the database does not exist or is stored as a single value.
+	 */
+	getRecordIds(databaseName: string): string[] | undefined {
+		if (!this.hasJSONDatabase(databaseName)) return undefined;
+		try {
+			const data = this.readJSON(databaseName);
+			return this.isRecordManifest(data) ? data[DatabaseManager.RECORDS_KEY] : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Stores a database per record: each record lives in its own property next to a manifest of ids.
+	 * Only the given records are written, then the manifest is updated, then records no longer listed are removed.
+	 * @param databaseName The name of the database.
+	 * @param ids The ids of every record in the database.
+	 * @param records The records that changed since the last save.
+	 * @param previousIds The ids in the stored manifest, or undefined if the database is not stored per record yet.
+	 * @param options The compression codec to store each record with.
+	 */
+	addRecordDatabase(
+		databaseName: string,
+		ids: string[],
+		records: SimpleObject[],
+		previousIds: string[] | undefined,
+		options: JSONDatabaseOptions = {}
+	) {
+		for (const record of records) {
+			this.addJSONDatabase(this.getRecordName(databaseName, record.id), record, options);
+		}
+
+		const idSet = new Set(ids);
+		const manifestChanged = !previousIds || previousIds.length !== idSet.size || previousIds.some((id) => !idSet.has(id));
+		if (manifestChanged) {
+			this.addJSONDatabase(databaseName, { [DatabaseManager.RECORDS_KEY]: ids }, options);
+		}
+
+		if (previousIds) {
+			this.removeRecords(
+				databaseName,
+				previousIds.filter((id) => !idSet.has(id))
+			);
+		}
+	}
+
+	/**
+	 * Removes the properties of the given records of a database stored per record.
+	 * @param databaseName The name of the database.
+	 * @param ids The ids of the records to remove.
+	 */
+	removeRecords(databaseName: string, ids: string[]) {
+		for (const id of ids) {
+			this.removeJSONDatabase(this.getRecordName(databaseName, id));
+		}
+	}
+
+	/**
+	 * Retrieves the schema version stored next to a JSON database.
+	 * Databases written before versioning existed report version 0.
+	 * @param databaseName The name of the database.
+	 * @returns The stored schema version.
+	 */
+	getSchemaVersion(databaseName: string): number {
+		const version = this.storage.getProperty(databaseName + DatabaseManager.VERSION_SUFFIX);
+		return typeof version === "number" ? version : 0;
+	}
+
+	/**
+	 * Stores the schema version of a JSON database.
+	 * @param databaseName The name of the database.
+	 * @param version The schema version.
+	 */
+	setSchemaVersion(databaseName: string, version: number) {
+		this.storage.setProperty(databaseName + DatabaseManager.VERSION_SUFFIX, version);
+	}
+
+	/**
+	 * Retrieves the record expiries stored next to a JSON database.
+	 * @param databaseName The name of the database.
+	 * @returns The world time each record expires at, by record id.
+	 */
+	getExpiries(databaseName: string): Record<string, number> {
+		const name = databaseName + DatabaseManager.EXPIRY_SUFFIX;
+		if (!this.hasJSONDatabase(name)) return {};
+		let data: unknown;
+		try {
+			data = this.readJSON(name);
+		} catch (error) {
+			console.warn(`Failed to read the expiries of ${databaseName}: ${error instanceof Error ? error.message : error}`);
+			return {};
+		}
+		const expiries: Record<string, number> = {};
+		if (data && typeof data === "object" && !Array.isArray(data)) {
+			for (const [id, expiresAt] of Object.entries(data)) {
+				if (typeof expiresAt === "number") {
+					expiries[id] = expiresAt;
 				}
-			} catch {}
-			this.target.setDynamicProperty(databaseName, undefined);
+			}
+		}
+		return expiries;
+	}
+
+	/**
+	 * Stores the record expiries of a JSON database. An empty list removes the property.
+	 * @param databaseName The name of the database.
+	 * @param expiries The world time each record expires at, by record id.
+	 * @param options The compression codec to store the expiries with.
+	 */
+	setExpiries(databaseName: string, expiries: Record<string, number>, options: JSONDatabaseOptions = {}) {
+		const name = databaseName + DatabaseManager.EXPIRY_SUFFIX;
+		if (Object.keys(expiries).length === 0) {
+			this.removeJSONDatabase(name);
+		} else {
+			this.addJSONDatabase(name, expiries, options);
+		}
+	}
+
+	/**
+	 * Reports how much space the compression codec of a database saves.
+	 * Lengths are counted in characters, which is what the dynamic property limits apply to.
+	 * @param databaseName The name of the database.
+	 * @returns The compression statistics.
+	 * @throws An error if the database does not exist.
+	 */
+	getCompressionStats(databaseName: string): CompressionStats {
+		const propString = this.storage.getProperty(databaseName) as string | undefined;
+		if (propString === undefined) {
+			throw new Error("Database does not exist");
+		}
+
+		const meta = this.getChunkMeta(databaseName);
+		let storedLength = propString.length;
+		if (meta) {
+			storedLength = 0;
+			for (let i = 0; i < meta.chunks; i++) {
+				const part = this.storage.getProperty(this.getChunkName(databaseName, meta.generation, i));
+				storedLength += typeof part === "string" ? part.length : 0;
+			}
 		}
+		const rawLength = meta?.rawLength ?? storedLength;
+
+		return {
+			codec: meta?.codec,
+			rawLength,
+			storedLength,
+			savedLength: rawLength - storedLength,
+			ratio: rawLength > 0 ? storedLength / rawLength : 1,
+		};
 	}
 
 	/**
 	 * Retrieves a JSON database with the given name.
+	 * Databases stored per record are assembled into an array of their records.
 	 * @param databaseName The name of the database.
 	 * @returns The data stored in the database.
 	 * @throws An error if the database does not exist.
 	 */
-	getJSONDatabase(databaseName: string) {
-		const propString = this.target.getDynamicProperty(databaseName) as string | undefined;
+	getJSONDatabase(databaseName: string): unknown {
+		const data = this.readJSON(databaseName);
+		if (!this.isRecordManifest(data)) {
+			return data;
+		}
+
+		const records: unknown[] = [];
+		for (const id of data[DatabaseManager.RECORDS_KEY]) {
+			const recordName = this.getRecordName(databaseName, id);
+			if (this.hasJSONDatabase(recordName)) {
+				records.push(this.readJSON(recordName));
+			} else {
+				console.warn(`Record ${id} listed in ${databaseName} is missing`);
+			}
+		}
+		return records;
+	}
+
+	/**
+	 * Reads a JSON database. If the current generation fails verification and a backup was kept,
+	 * the backup is read instead.
+	 * @throws A DatabaseIntegrityError if the database is corrupted and has no valid backup.
+	 */
+	private readJSON(databaseName: string): unknown {
+		const propString = this.storage.getProperty(databaseName) as string | undefined;
 		if (propString === undefined) {
 			throw new Error("Database does not exist");
 		}
+		const meta = this.getChunkMeta(databaseName);
+		if (!meta) {
+			return this.parseJSON(databaseName, propString);
+		}
+
+		const error = this.verifyChunks(databaseName, meta);
+		if (!error) {
+			return this.parseJSON(databaseName, this.readChunks(databaseName, meta), meta.codec);
+		}
+		if (!meta.backup || this.verifyChunks(databaseName, meta.backup)) {
+			throw error;
+		}
+		console.warn(`${error.message}, loading the backup of ${databaseName} instead`);
+		return this.parseJSON(databaseName, this.readChunks(databaseName, meta.backup), meta.backup.codec);
+	}
+
+	private readChunks(databaseName: string, meta: ChunkMeta): string {
+		let combined = "";
+		for (let i = 0; i < meta.chunks; i++) {
+			combined += this.storage.getProperty(this.getChunkName(databaseName, meta.generation, i));
+		}
+		return combined;
+	}
+
+	private parseJSON(databaseName: string, stored: string, codec?: string): unknown {
 		try {
-			const propObj = JSON.parse(propString);
-			if (propObj && typeof propObj === "object" && DatabaseManager.CHUNK_KEY in propObj) {
-				const chunkCount: number = propObj[DatabaseManager.CHUNK_KEY];
-				let combined = "";
-				for (let i = 0; i < chunkCount; i++) {
-					const partName = `${databaseName}_${i}`;
-					const part = this.target.getDynamicProperty(partName) as string | undefined;
-					if (typeof part === "string") {
-						combined += part;
-					} else {
-						combined += "";
-					}
-				}
-				return JSON.parse(combined);
-			} else {
-				return JSON.parse(propString);
-			}
+			const json = codec !== undefined ? getCompressionCodec(codec).decompress(stored) : stored;
+			return decodeValue(JSON.parse(json));
 		} catch {
-			throw new Error("Failed to parse database JSON");
+			throw new DatabaseIntegrityError(databaseName, undefined, "Failed to parse database JSON");
 		}
 	}
+
+	/**
+	 * Checks that every chunk of a generation exists and matches its checksum.
+	 * Generations written before checksums existed are only checked for missing chunks.
+	 * @returns The error describing the first failure, or undefined if the generation is intact.
+	 */
+	private verifyChunks(databaseName: string, meta: ChunkMeta): DatabaseIntegrityError | undefined {
+		let combined = "";
+		for (let i = 0; i < meta.chunks; i++) {
+			const chunkName = this.getChunkName(databaseName, meta.generation, i);
+			const part = this.storage.getProperty(chunkName);
+			if (typeof part !== "string") {
+				return new DatabaseIntegrityError(databaseName, chunkName, `Chunk ${chunkName} of ${databaseName} is missing`);
+			}
+			if (meta.chunkChecksums && checksum(part) !== meta.chunkChecksums[i]) {
+				return new DatabaseIntegrityError(databaseName, chunkName, `Chunk ${chunkName} of ${databaseName} does not match its checksum`);
+			}
+			combined += part;
+		}
+		if (meta.checksum !== undefined && checksum(combined) !== meta.checksum) {
+			return new DatabaseIntegrityError(databaseName, undefined, `${databaseName} does not match its checksum`);
+		}
+	}
+
+	/**
+	 * Verifies a JSON database without falling back to its backup, including every record if it is stored per record.
+	 * @param databaseName The name of the database.
+	 * @returns The error describing the first failure, or undefined if the database is intact or does not exist.
+	 */
+	verifyJSONDatabase(databaseName: string): DatabaseIntegrityError | undefined {
+		const propString = this.storage.getProperty(databaseName);
+		if (typeof propString !== "string") return undefined;
+
+		const meta = this.getChunkMeta(databaseName);
+		const chunkError = meta && this.verifyChunks(databaseName, meta);
+		if (chunkError) return chunkError;
+
+		let data: unknown;
+		try {
+			data = meta
+				? this.parseJSON(databaseName, this.readChunks(databaseName, meta), meta.codec)
+				: this.parseJSON(databaseName, propString);
+		} catch (error) {
+			return error as DatabaseIntegrityError;
+		}
+
+		if (this.isRecordManifest(data)) {
+			for (const id of data[DatabaseManager.RECORDS_KEY]) {
+				const error = this.verifyJSONDatabase(this.getRecordName(databaseName, id));
+				if (error) return error;
+			}
+		}
+	}
+}
+
+/**
+ * FieldIndex maps the values of one record field to the ids of the records holding them.
+ * The indexed value is remembered per id, so records mutated in place are still unindexed correctly.
+ */
+class FieldIndex<T extends SimpleObject> {
+	private readonly field: string;
+	private byValue: Map<unknown, Set<string>> = new Map();
+	private byId: Map<string, unknown> = new Map();
+
+	constructor(field: string) {
+		this.field = field;
+	}
+
+	add(object: T) {
+		const value = (object as Record<string, unknown>)[this.field];
+		let ids = this.byValue.get(value);
+		if (!ids) {
+			ids = new Set();
+			this.byValue.set(value, ids);
+		}
+		ids.add(object.id);
+		this.byId.set(object.id, value);
+	}
+
+	remove(id: string) {
+		if (!this.byId.has(id)) return;
+		const value = this.byId.get(id);
+		const ids = this.byValue.get(value);
+		if (ids) {
+			ids.delete(id);
+			if (ids.size === 0) {
+				this.byValue.delete(value);
+			}
+		}
+		this.byId.delete(id);
+	}
+
+	get(value: unknown): Set<string> {
+		return this.byValue.get(value) ?? new Set();
+	}
+
+	clear() {
+		this.byValue.clear();
+		this.byId.clear();
+	}
+}
+
+/**
+ * The state of a SimpleDatabase captured when a transaction begins, restored if it rolls back.
+ */
+interface TransactionSnapshot<T extends SimpleObject> {
+	records: T[];
+	pendingChanges: number;
+	dirtyIds: Set<string>;
+	expiries: Map<string, number>;
 }
 
 /**
@@ -141,7 +772,7 @@ class DatabaseManager {
  * class MyDatabase extends SimpleDatabase<PlayerObject> {
  * 	protected static instance: MyDatabase;
  * 	constructor() {
- * 		super("myDatabase", undefined);
+ * 		super("myDatabase", undefined, { indexes: ["branch"] });
  * 	}
  *
  * 	static getInstance(): MyDatabase {
@@ -153,82 +784,774 @@ class DatabaseManager {
  */
 class SimpleDatabase<T extends SimpleObject> {
 	private mainDB: DatabaseManager;
-	private localDB: T[];
+	private localDB: Map<string, T> = new Map();
+	private indexes: Map<string, FieldIndex<T>> = new Map();
+	private migrations: Migration[];
+	private compression: string | undefined;
+	private storage: StorageMode;
+	private storedIds: string[] | undefined;
+	private dirtyIds: Set<string> = new Set();
+	private migrationError: Error | undefined;
+	private integrity: SimpleDatabaseOptions<T>["integrity"];
+	private integrityError: DatabaseIntegrityError | undefined;
+	private schema: Schema<T> | undefined;
+	private invalidPolicy: InvalidRecordPolicy;
+	private changes: ChangeNotifier<T> = new ChangeNotifier(
+		(id) => this.localDB.get(id),
+		() => this.localDB.values()
+	);
 
+	private persistence: PersistencePolicy;
 	private pendingChanges = 0;
+	private writeDepth = 0;
+	private saveJob: number | undefined;
+	private saveDueTick = 0;
+	private saveDeadlineTick = 0;
+	private saveStats: SaveStats = { saves: 0, lastDuration: 0, averageDuration: 0, maxDuration: 0, lastSaveTick: undefined };
+	private transactions: TransactionSnapshot<T>[] = [];
+	private saveDeferred = false;
+
+	/** The time each expiring record expires at, in the expiry clock. */
+	private expiries: Map<string, number> = new Map();
+	private expiryClock: ExpiryClock;
+	private expiriesChanged = false;
+	private nextExpiry = Infinity;
+	private expired: T[] = [];
+	private expiredCallbacks: Listeners<[object: T]> = new Listeners();
+
+	private history: ChangeHistory<T> | undefined;
+	private closed = false;
+
+	private static openDatabases: Set<SimpleDatabase<SimpleObject>> = new Set();
+	private static expiryJob: number | undefined;
+	private static expiryEnvironment: DatabaseEnvironment | undefined;
+	private static shutdownEnvironment: DatabaseEnvironment | undefined;
 
 	private static readonly SAVE_INTERVAL = 20 * 5;
 	private static readonly SAVE_THRESHOLD = 20;
+	private static readonly DEBOUNCE_DELAY = 20;
+	private static readonly DEBOUNCE_MAX_WAIT = 20 * 5;
+	private static readonly QUARANTINE_SUFFIX = "__quarantine";
+	private static readonly HISTORY_SUFFIX = "__history";
+	private static readonly EXPIRY_SWEEP_INTERVAL = 20;
 
 	protected databaseName: string;
 
 	/**
 	 * The constructor initializes the local database and syncs it with the main database.
 	 * @param databaseName The name of the database.
-	 * @param target The target entity to store the database in. If undefined, the database is stored in the world.
+	 * @param target The target entity to store the database in, or a storage adapter such as a MemoryStorageAdapter.
+	 * If undefined, the database is stored in the world.
+	 * @param options Additional options such as secondary indexes.
 	 */
-	protected constructor(databaseName: string, target?: Entity | undefined) {
+	protected constructor(databaseName: string, target?: Entity | StorageAdapter | undefined, options: SimpleDatabaseOptions<T> = {}) {
 		this.databaseName = `${getNamespace()}:${databaseName}`;
 		this.mainDB = new DatabaseManager(target);
 
+		this.migrations = options.migrations ?? [];
+		this.compression = options.compression;
+		this.storage = options.storage ?? "single";
+		this.schema = options.schema;
+		this.invalidPolicy = options.invalidPolicy ?? "drop";
+		this.persistence = options.persistence ?? { mode: "periodic" };
+		this.integrity = options.integrity;
+		this.expiryClock = options.expiryClock ?? "worldTime";
+		for (const field of options.indexes ?? []) {
+			this.indexes.set(field, new FieldIndex(field));
+		}
+
 		if (this.mainDB.hasJSONDatabase(this.databaseName)) {
-			this.localDB = this.getMainDB();
+			this.storedIds = this.mainDB.getRecordIds(this.databaseName);
+			this.loadMainDB();
+			this.loadExpiries();
 		} else {
-			this.localDB = [];
 			this.save();
+			this.mainDB.setSchemaVersion(this.databaseName, this.migrations.length);
 		}
+		if (options.history) {
+			this.loadHistory(options.history);
+		}
+		SimpleDatabase.openDatabases.add(this);
 
-		system.runTimeout(() => {
-			if (this.pendingChanges > SimpleDatabase.SAVE_THRESHOLD) {
-				this.save();
-			}
-		}, SimpleDatabase.SAVE_INTERVAL);
+		if (this.persistence.mode === "periodic") {
+			this.saveJob = getDatabaseEnvironment().runInterval(() => {
+				if (this.isDirty()) this.save();
+			}, this.persistence.interval ?? SimpleDatabase.SAVE_INTERVAL);
+		}
 
-		system.beforeEvents.shutdown.subscribe(() => {
-			system.run(() => this.save());
-		});
+		SimpleDatabase.subscribeShutdown();
 	}
 
 	/**
-	 * Immediately saves the local database to the main database.
+	 * Saves every open database on shutdown, with one hook shared by all databases.
 	 */
-	private save() {
-		this.pendingChanges = 0;
-		this.mainDB.addJSONDatabase(this.databaseName, this.localDB);
+	private static subscribeShutdown() {
+		const environment = getDatabaseEnvironment();
+		if (SimpleDatabase.shutdownEnvironment === environment) return;
+		SimpleDatabase.shutdownEnvironment = environment;
+
+		environment.onShutdown(() => SimpleDatabase.flushAll());
 	}
 
 	/**
-	 * Retrieves the main database.
-	 * @private
-	 * @returns The main database.
+	 * Immediately saves the local database to the main database.
+	 * In single storage the records are stored as an array to keep the stored format unchanged,
+	 * in record storage only the records changed since the last save are written.
+	 * Nothing is written after a failed migration or a failed integrity check, so the stored data stays untouched.
 	 */
-	private getMainDB() {
-		return this.mainDB.getJSONDatabase(this.databaseName);
-	}
+	private save() {
+		if (this.closed || this.migrationError || this.integrityError) return;
+		if (this.transactions.length > 0) {
+			this.saveDeferred = true;
+			return;
+		}
+		// Expired objects are removed as part of this save, without scheduling another one
+		this.writeDepth++;
+		try {
+			this.sweepExpired();
+		} finally {
+			this.writeDepth--;
+		}
+		this.saveDeferred = false;
+		this.pendingChanges = 0;
+		const options = { compression: this.compression, checksum: this.integrity !== undefined, backup: this.integrity === "backup" };
+		const start = Date.now();
+
+		if (this.storage === "record") {
+			// Everything is written when switching over from single storage
+			const changed = this.storedIds ? Array.from(this.dirtyIds, (id) => this.localDB.get(id)) : Array.from(this.localDB.values());
+			const ids = Array.from(this.localDB.keys());
+			this.mainDB.addRecordDatabase(
+				this.databaseName,
+				ids,
+				changed.filter((object): object is T => object !== undefined),
+				this.storedIds,
+				options
+			);
+			this.storedIds = ids;
+		} else {
+			this.mainDB.addJSONDatabase(this.databaseName, Array.from(this.localDB.values()), options);
+			if (this.storedIds) {
+				this.mainDB.removeRecords(this.databaseName, this.storedIds);
+				this.storedIds = undefined;
+			}
+		}
+		this.dirtyIds.clear();
+
+		this.saveHistory();
+
+		if (this.expiriesChanged) {
+			this.expiriesChanged = false;
+			this.mainDB.setExpiries(this.databaseName, this.getStoredExpiries(), options);
+		}
+
+		const duration = Date.now() - start;
+		const stats = this.saveStats;
+		stats.averageDuration = (stats.averageDuration * stats.saves + duration) / (stats.saves + 1);
+		stats.saves++;
+		stats.lastDuration = duration;
+		stats.maxDuration = Math.max(stats.maxDuration, duration);
+		stats.lastSaveTick = getDatabaseEnvironment().getCurrentTick();
+	}
+
+	/**
+	 * Records a change and saves it according to the persistence policy.
+	 * Changes made inside a write are saved together once the write finishes.
+	 */
+	private markChanged() {
+		this.pendingChanges++;
+		if (this.writeDepth === 0) {
+			this.scheduleSave();
+		}
+	}
+
+	/**
+	 * Runs a write made of several changes, such as an update, so the persistence policy sees it as one change.
+	 */
+	private write(fn: () => void) {
+		this.writeDepth++;
+		try {
+			fn();
+		} finally {
+			this.writeDepth--;
+		}
+		if (this.writeDepth === 0 && this.pendingChanges > 0) {
+			this.scheduleSave();
+		}
+	}
+
+	private scheduleSave() {
+		const policy = this.persistence;
+		if (policy.mode === "immediate") {
+			this.save();
+		} else if (policy.mode === "periodic") {
+			if (this.pendingChanges >= (policy.threshold ?? SimpleDatabase.SAVE_THRESHOLD)) {
+				this.save();
+			}
+		} else if (policy.mode === "debounced") {
+			const delay = policy.delay ?? SimpleDatabase.DEBOUNCE_DELAY;
+			const now = getDatabaseEnvironment().getCurrentTick();
+			if (this.saveJob === undefined) {
+				this.saveDeadlineTick = now + Math.max(delay, policy.maxWait ?? SimpleDatabase.DEBOUNCE_MAX_WAIT);
+			}
+			// Writes keep pushing the save back, but never past the deadline
+			this.saveDueTick = Math.min(now + delay, this.saveDeadlineTick);
+			if (this.saveJob === undefined) {
+				this.saveJob = getDatabaseEnvironment().runTimeout(() => this.runDebouncedSave(), this.saveDueTick - now);
+			}
+		}
+	}
+
+	/**
+	 * Saves once the debounce delay passed since the last change, rescheduling itself if changes happened in the meantime,
+	 * or once the maximum wait passed since the first unsaved change.
+	 */
+	private runDebouncedSave() {
+		const remaining = this.saveDueTick - getDatabaseEnvironment().getCurrentTick();
+		if (remaining > 0) {
+			this.saveJob = getDatabaseEnvironment().runTimeout(() => this.runDebouncedSave(), remaining);
+			return;
+		}
+		this.saveJob = undefined;
+		if (this.isDirty()) this.save();
+	}
+
+	/**
+	 * Checks if the database has changes that are not saved yet.
+	 * @returns True if the database has unsaved changes.
+	 */
+	isDirty(): boolean {
+		return this.pendingChanges > 0 || this.dirtyIds.size > 0 || this.expiriesChanged;
+	}
+
+	/**
+	 * Reports how long the saves of this database took, to spot databases that grow too large to save every tick.
+	 * @returns The save statistics.
+	 */
+	getSaveStats(): SaveStats {
+		return { ...this.saveStats };
+	}
+
+	/**
+	 * Saves every open database with unsaved changes, whatever its persistence policy.
+	 * Databases whose entity was removed are skipped.
+	 * @returns The number of databases saved.
+	 * @example
+	 * system.afterEvents.scriptEventReceive.subscribe((event) => {
+	 * 	if (event.id === "myproject:save") SimpleDatabase.flushAll();
+	 * });
+	 */
+	static flushAll(): number {
+		let saved = 0;
+		for (const database of SimpleDatabase.openDatabases) {
+			if (database.isDirty() && database.mainDB.isValid) {
+				database.save();
+				saved++;
+			}
+		}
+		return saved;
+	}
+
+	/**
+	 * Closes the database, such as when the entity it is stored on unloads.
+	 * Unsaved changes are saved first if the store can still be written,
+	 * then the database stops saving and is removed from the open databases.
+	 * A closed database must not be used anymore, a new instance reads the stored data again.
+	 */
+	close(): void {
+		if (this.closed) return;
+		if (this.isDirty() && this.mainDB.isValid) {
+			this.save();
+		}
+		this.closed = true;
+		if (this.saveJob !== undefined) {
+			getDatabaseEnvironment().clearRun(this.saveJob);
+			this.saveJob = undefined;
+		}
+		SimpleDatabase.openDatabases.delete(this);
+	}
+
+	/**
+	 * Checks if the database was closed.
+	 * @returns True if the database was closed or its stored data deleted.
+	 */
+	isClosed(): boolean {
+		return this.closed;
+	}
+
+	/**
+	 * Removes everything the database stored, including its schema version, expiries, history and quarantined records,
+	 * and closes it. Unsaved changes are discarded.
+	 */
+	deleteStoredData(): void {
+		this.pendingChanges = 0;
+		this.dirtyIds.clear();
+		this.expiriesChanged = false;
+		this.close();
+		for (const name of [this.databaseName, this.getQuarantineName(), this.getHistoryName()]) {
+			this.mainDB.removeJSONDatabase(name);
+		}
+	}
+
+	/**
+	 * Retrieves the main database.
+	 * @private
+	 * @returns The stored records, not yet migrated or checked against the schema.
+	 * @throws A DatabaseIntegrityError if the stored data is not a list of records.
+	 */
+	private getMainDB(): unknown[] {
+		const data = this.mainDB.getJSONDatabase(this.databaseName);
+		if (!Array.isArray(data)) {
+			throw new DatabaseIntegrityError(this.databaseName, undefined, `${this.databaseName} is not a list of records`);
+		}
+		return data;
+	}
+
+	/**
+	 * Loads the main database into the local database, migrating it to the current schema version first
+	 * and then checking it against the schema.
+	 * Migrated records are saved right away so the migrations only run once, and so are removed invalid records.
+	 * A database restored from its backup after failing verification is saved right away as well, which repairs it.
+	 * If a migration throws or the database is corrupted without a backup, the local database stays empty and saving is disabled for this instance.
+	 */
+	private loadMainDB() {
+		const corruption = this.mainDB.verifyJSONDatabase(this.databaseName);
+		let records: unknown[];
+		try {
+			records = this.getMainDB();
+		} catch (error) {
+			if (!(error instanceof DatabaseIntegrityError)) throw error;
+			this.integrityError = error;
+			console.error(`Failed to load ${this.databaseName}: ${error.message}. It is left untouched until replaceAllObjects is called.`);
+			return;
+		}
+		if (corruption) {
+			console.warn(`${this.databaseName} was restored from its backup and is repaired: ${corruption.message}`);
+		}
+
+		const storedVersion = this.mainDB.getSchemaVersion(this.databaseName);
+		const targetVersion = this.migrations.length;
+		const migrating = storedVersion !== targetVersion;
+
+		if (migrating) {
+			try {
+				if (storedVersion > targetVersion) {
+					throw new Error(`Stored schema version ${storedVersion} is newer than ${targetVersion}`);
+				}
+				for (let version = storedVersion; version < targetVersion; version++) {
+					records = records.map((record, index) => {
+						if (!record || typeof record !== "object" || Array.isArray(record)) {
+							throw new Error(`Record ${index} is not an object`);
+						}
+						return this.migrations[version](record as Record<string, unknown>);
+					});
+				}
+			} catch (error) {
+				this.migrationError = error instanceof Error ? error : new Error(String(error));
+				console.error(
+					`Failed to migrate ${this.databaseName} from version ${storedVersion} to ${targetVersion}: ${this.migrationError.message}`
+				);
+				return;
+			}
+		}
+
+		const valid = this.validateRecords(records, "load");
+		this.load(valid);
+		if (migrating || corruption) {
+			this.localDB.forEach((object) => this.dirtyIds.add(object.id));
+		}
+		if (migrating || corruption || valid.length !== records.length) {
+			this.save();
+			this.mainDB.setSchemaVersion(this.databaseName, targetVersion);
+		}
+	}
+
+	/**
+	 * Checks a record against the schema and applies the invalid record policy if it does not match.
+	 * @param record The record to check.
+	 * @param source Whether the record is being loaded or written.
+	 * @returns True if the record is valid or the database has no schema.
+	 * @throws A SchemaValidationError if the record is invalid and the policy is "throw".
+	 */
+	private acceptRecord(record: unknown, source: QuarantinedRecord["source"]): record is T {
+		return this.validateRecords([record], source).length === 1;
+	}
+
+	/**
+	 * Checks records against the schema and applies the invalid record policy to those that do not match.
+	 * Quarantined records are written together, so a large invalid load only rewrites the quarantine once.
+	 * @param records The records to check.
+	 * @param source Whether the records are being loaded or written.
+	 * @returns The valid records.
+	 * @throws A SchemaValidationError for the first invalid record if the policy is "throw".
+	 */
+	private validateRecords(records: unknown[], source: QuarantinedRecord["source"]): T[] {
+		const schema = this.schema;
+		if (!schema) return records as T[];
+
+		const valid: T[] = [];
+		const rejected: QuarantinedRecord[] = [];
+		for (const record of records) {
+			const issues = schema.validate(record);
+			if (issues.length === 0) {
+				valid.push(record as T);
+				continue;
+			}
+
+			const error = new SchemaValidationError(this.databaseName, (record as Partial<SimpleObject> | null)?.id, issues);
+			if (this.invalidPolicy === "throw") {
+				throw error;
+			}
+			console.warn(`${error.message} (${this.invalidPolicy === "quarantine" ? "quarantined" : "dropped"})`);
+			rejected.push({ record, issues, source, tick: getDatabaseEnvironment().getCurrentTick() });
+		}
+
+		if (rejected.length > 0 && this.invalidPolicy === "quarantine") {
+			this.mainDB.addJSONDatabase(this.getQuarantineName(), [...this.getQuarantinedRecords(), ...rejected], {
+				compression: this.compression,
+			});
+		}
+		return valid;
+	}
+
+	private getQuarantineName() {
+		return this.databaseName + SimpleDatabase.QUARANTINE_SUFFIX;
+	}
+
+	/**
+	 * Retrieves the records set aside by the "quarantine" policy, oldest first.
+	 * @returns The quarantined records with the issues found in each.
+	 */
+	getQuarantinedRecords(): QuarantinedRecord[] {
+		const name = this.getQuarantineName();
+		const stored = this.mainDB.hasJSONDatabase(name) ? this.mainDB.getJSONDatabase(name) : [];
+		return Array.isArray(stored) ? stored : [];
+	}
+
+	/**
+	 * Deletes the quarantined records of this database.
+	 */
+	clearQuarantine() {
+		this.mainDB.removeJSONDatabase(this.getQuarantineName());
+	}
+
+	private getHistoryName() {
+		return this.databaseName + SimpleDatabase.HISTORY_SUFFIX;
+	}
+
+	/**
+	 * Loads the stored history. A history that cannot be read is discarded, since the records themselves are unaffected.
+	 */
+	private loadHistory(options: HistoryOptions<T>) {
+		const name = this.getHistoryName();
+		let stored: StoredHistory<T> | undefined;
+		try {
+			const data = this.mainDB.hasJSONDatabase(name) ? this.mainDB.getJSONDatabase(name) : undefined;
+			if (data !== undefined && !isStoredHistory<T>(data)) {
+				throw new Error("it is not a change log");
+			}
+			stored = data;
+		} catch (error) {
+			console.warn(`Discarding the history of ${this.databaseName}: ${error instanceof Error ? error.message : error}`);
+		}
+		this.history = new ChangeHistory(this.databaseName, options, stored, {
+			getRecord: (id) => this.localDB.get(id),
+			getRecords: () => this.localDB.values(),
+			canCommit: () => this.transactions.length === 0,
+			// Entries whose changes are already saved are written right away, the others with the next save
+			onCommit: () => {
+				if (!this.isDirty()) this.saveHistory();
+			},
+		});
+	}
+
+	/**
+	 * Writes the history if new entries were appended since it was last written.
+	 */
+	private saveHistory() {
+		const history = this.history?.takeChanges();
+		if (history && !this.closed && !this.migrationError && !this.integrityError) {
+			this.mainDB.addJSONDatabase(this.getHistoryName(), history, { compression: this.compression });
+		}
+	}
+
+	private requireHistory(): ChangeHistory<T> {
+		if (!this.history) {
+			throw new Error(`History is not enabled for ${this.databaseName}`);
+		}
+		this.history.commit();
+		return this.history;
+	}
+
+	/**
+	 * Runs a function with a reason tag for the history, such as "admin reset" or "level completed".
+	 * The changes made by the function are logged in their own entry with this reason.
+	 * Changes made inside a transaction are logged in one entry once it commits, with the reason of the first change.
+	 * @param reason The reason tag.
+	 * @param fn The function to run. It must be synchronous.
+	 * @returns The value returned by the function.
+	 * @example
+	 * branchDatabase.withReason("admin skip", () => branch.jumpToLevel("boss"));
+	 */
+	withReason<R>(reason: string, fn: () => R): R {
+		return this.history ? this.history.withReason(reason, fn) : fn();
+	}
+
+	/**
+	 * Lists the history of the database, oldest first.
+	 * @returns The entries with the ids of the changed records.
+	 * @throws An error if history is not enabled.
+	 */
+	getHistory(): HistoryEntryInfo[] {
+		return this.requireHistory().list();
+	}
+
+	/**
+	 * Compares two points of the history.
+	 * @param from The sequence number of the entry of the earlier point.
+	 * @param to The sequence number of the entry of the later point, or undefined to compare with the current records.
+	 * @returns The records added, removed and updated between both points.
+	 * @throws An error if history is not enabled or an entry is not in the history.
+	 */
+	diffHistory(from: number, to?: number): HistoryDiff<T> {
+		return this.requireHistory().diff(from, to);
+	}
+
+	/**
+	 * Restores every record to its value right after a history entry, and saves immediately.
+	 * The restore is logged as a new entry, so it can be undone as well.
+	 * Fields ignored by the history are restored to their value as of the entry that last logged the record.
+	 * @param seq The sequence number of the entry.
+	 * @throws An error if history is not enabled or the entry is not in the history.
+	 */
+	restoreHistory(seq: number): void {
+		const state = this.requireHistory().stateAt(seq);
+		this.withReason(`restore ${seq}`, () => this.replaceAllObjects(Array.from(state.values())));
+	}
+
+	/**
+	 * Restores every record to its value at a world time, as returned by world.getAbsoluteTime, and saves immediately.
+	 * The time is resolved to the entry with the highest sequence number made at or before it, which is then restored by its sequence number.
+	 * `/time set` can move the world time back, so when it was used, pick the entry from getHistory and call restoreHistory instead.
+	 * @param worldTime The world time.
+	 * @returns The sequence number of the restored entry.
+	 * @throws An error if history is not enabled or the history holds no entry at or before that time.
+	 * @example
+	 * // Undo the last minute of a map run
+	 * BranchDatabase.getInstance().restoreToWorldTime(world.getAbsoluteTime() - 20 * 60);
+	 */
+	restoreToWorldTime(worldTime: number): number {
+		const entry = this.requireHistory().findByWorldTime(worldTime);
+		if (!entry) {
+			throw new Error(`The history of ${this.databaseName} holds no entry at or before world time ${worldTime}`);
+		}
+		this.restoreHistory(entry.seq);
+		return entry.seq;
+	}
+
+	/**
+	 * Deletes the history of this database. Logging continues with the next change.
+	 * @throws An error if history is not enabled.
+	 */
+	clearHistory() {
+		this.requireHistory().clear();
+		this.markChanged();
+	}
+
+	/**
+	 * Retrieves the error raised by a failed migration, if any.
+	 * While it is set the database is empty and never saved.
+	 * @returns The migration error, or undefined if the database loaded normally.
+	 */
+	getMigrationError(): Error | undefined {
+		return this.migrationError;
+	}
+
+	/**
+	 * Retrieves the error raised when the stored data failed verification and no valid backup was available, if any.
+	 * While it is set the database is empty and never saved, until replaceAllObjects overwrites the stored data.
+	 * @returns The integrity error, or undefined if the database loaded normally or was restored from its backup.
+	 */
+	getIntegrityError(): DatabaseIntegrityError | undefined {
+		return this.integrityError;
+	}
+
+	/**
+	 * Reports how much space the compression codec saves for this database, as of the last save.
+	 * @returns The compression statistics.
+	 */
+	getCompressionStats(): CompressionStats {
+		return this.mainDB.getCompressionStats(this.databaseName);
+	}
+
+	/**
+	 * Replaces the local database with the given records and rebuilds every index.
+	 * @param records The records to load.
+	 */
+	private load(records: T[]) {
+		this.localDB.forEach((object) => this.changes.touch(object.id));
+		this.localDB.clear();
+		this.indexes.forEach((index) => index.clear());
+		for (const record of records) {
+			this.localDB.set(record.id, record);
+			this.indexRecord(record);
+			this.changes.touch(record.id);
+		}
+	}
+
+	private indexRecord(object: T) {
+		this.indexes.forEach((index) => index.add(object));
+	}
+
+	private unindexRecord(id: string) {
+		this.indexes.forEach((index) => index.remove(id));
+	}
 
 	forceSave() {
 		this.save();
 	}
 
+	private beginTransaction() {
+		this.transactions.push({
+			records: Array.from(this.localDB.values(), (object) => cloneValue(object)),
+			pendingChanges: this.pendingChanges,
+			dirtyIds: new Set(this.dirtyIds),
+			expiries: new Map(this.expiries),
+		});
+	}
+
+	private commitTransaction() {
+		this.transactions.pop();
+		if (this.transactions.length === 0 && this.saveDeferred) {
+			this.save();
+		}
+	}
+
+	private rollbackTransaction() {
+		const snapshot = this.transactions.pop()!;
+		this.load(snapshot.records);
+		this.pendingChanges = snapshot.pendingChanges;
+		this.dirtyIds = snapshot.dirtyIds;
+		this.expiries = snapshot.expiries;
+		this.expiriesChanged = true;
+		this.nextExpiry = Math.min(...this.expiries.values());
+	}
+
+	/**
+	 * Finds a database that is currently open.
+	 * @param databaseName The full name of the database, including the namespace.
+	 * @param targetId The id of the entity the database is stored on, or "world".
+	 * @returns The open database, or undefined if it is not open.
+	 */
+	static getOpenDatabase(databaseName: string, targetId: string = "world"): SimpleDatabase<SimpleObject> | undefined {
+		for (const database of SimpleDatabase.openDatabases) {
+			if (database.databaseName === databaseName && database.mainDB.targetId === targetId) {
+				return database;
+			}
+		}
+	}
+
+	/**
+	 * Replaces every object in the database and saves it immediately.
+	 * Objects that do not match the schema are handled by the invalid record policy.
+	 * This also overwrites stored data that failed verification, and enables saving again.
+	 * @param objects The new objects.
+	 */
+	replaceAllObjects(objects: T[]): void {
+		this.integrityError = undefined;
+		const records = this.validateRecords(objects, "write");
+		if (this.history) {
+			this.localDB.forEach((object) => this.history!.record(object.id));
+			records.forEach((object) => this.history!.record(object.id));
+		}
+		this.load(records);
+		this.localDB.forEach((object) => this.dirtyIds.add(object.id));
+		this.expiries.forEach((_, id) => {
+			if (!this.localDB.has(id)) this.clearExpiry(id);
+		});
+		this.save();
+	}
+
+	/**
+	 * Runs a function as a transaction over one or more databases.
+	 * Saves requested inside the function are held back until the outermost transaction commits.
+	 * If the function throws, every database is restored to its state from before the transaction and the error is rethrown.
+	 * Transactions can be nested; a nested transaction that throws only rolls back its own changes.
+	 * @param databases The databases taking part in the transaction.
+	 * @param fn The function to run. It must be synchronous.
+	 * @returns The value returned by the function.
+	 * @example
+	 * SimpleDatabase.transaction([branchDatabase, playerDatabase], () => {
+	 * 	playerDatabase.updateObject({ ...player, branch: arena.identifier });
+	 * 	branchDatabase.updateObject({ ...branchState, levelTick: 0 });
+	 * });
+	 */
+	static transaction<R>(databases: SimpleDatabase<SimpleObject>[], fn: () => R): R {
+		const participants = Array.from(new Set(databases));
+		participants.forEach((database) => database.beginTransaction());
+
+		let result: R;
+		try {
+			result = fn();
+			if (result instanceof Promise) {
+				throw new Error("Database transactions must be synchronous");
+			}
+		} catch (error) {
+			participants.forEach((database) => database.rollbackTransaction());
+			throw error;
+		}
+
+		participants.forEach((database) => database.commitTransaction());
+		return result;
+	}
+
+	/**
+	 * Runs a function as a transaction over this database.
+	 * Changes are committed to the local database and saved together, or discarded completely if the function throws.
+	 * @param fn The function to run. It must be synchronous.
+	 * @returns The value returned by the function.
+	 */
+	transaction<R>(fn: () => R): R {
+		return SimpleDatabase.transaction([this], fn);
+	}
+
 	/**
 	 * Adds an object to the local database and updates the main database.
+	 * An existing object with the same id is replaced.
+	 * Objects that do not match the schema are handled by the invalid record policy.
 	 * @param object The object to be added.
 	 */
 	addObject(object: T): void {
-		this.localDB.push(object);
-		this.pendingChanges++;
+		if (!this.acceptRecord(object, "write")) return;
+		this.sweepExpiredObject(object.id);
+		this.history?.record(object.id);
+		this.unindexRecord(object.id);
+		this.localDB.set(object.id, object);
+		this.indexRecord(object);
+		this.changes.touch(object.id);
+		this.dirtyIds.add(object.id);
+		this.markChanged();
 	}
 
 	/**
 	 * Updates an object in the local database and the main database.
 	 * If the object does not exist, it is added.
+	 * An object that does not match the schema leaves the stored object unchanged.
 	 * @param object The object to be updated.
 	 */
 	updateObject(object: T): void {
-		if (this.hasObject(object.id)) {
-			this.removeObject(object.id);
-		}
-		this.addObject(object);
+		if (!this.acceptRecord(object, "write")) return;
+		this.sweepExpiredObject(object.id);
+		const expiresAt = this.expiries.get(object.id);
+		this.write(() => {
+			if (this.hasObject(object.id)) {
+				this.removeObject(object.id);
+			}
+			this.addObject(object);
+			if (expiresAt !== undefined) {
+				this.expireAt(object.id, expiresAt);
+			}
+		});
 	}
 
 	/**
@@ -237,7 +1560,7 @@ class SimpleDatabase<T extends SimpleObject> {
 	 * @returns True if the object exists, false otherwise.
 	 */
 	hasObject(id: string): boolean {
-		return this.localDB.find((object) => object.id === id) !== undefined;
+		return this.localDB.has(id) && !this.isExpired(id);
 	}
 
 	/**
@@ -246,7 +1569,45 @@ class SimpleDatabase<T extends SimpleObject> {
 	 * @returns The object if it exists, undefined otherwise.
 	 */
 	getObject(id: string): T | undefined {
-		return this.localDB.find((object) => object.id === id);
+		return this.isExpired(id) ? undefined : this.localDB.get(id);
+	}
+
+	/**
+	 * Checks if a secondary index is maintained for the given field.
+	 * @param field The indexed field.
+	 * @returns True if the field is indexed, false otherwise.
+	 */
+	hasIndex(field: keyof T): boolean {
+		return this.indexes.has(String(field));
+	}
+
+	/**
+	 * Retrieves all objects whose indexed field equals the given value.
+	 * @param field The indexed field, declared in the constructor options.
+	 * @param value The value to look up.
+	 * @returns An array of matching objects.
+	 * @throws An error if the field is not indexed.
+	 * @example
+	 * const players = playerDatabase.findBy("branch", branch.identifier);
+	 */
+	findBy<K extends keyof T>(field: K, value: T[K]): T[] {
+		const index = this.indexes.get(String(field));
+		if (!index) {
+			throw new Error(`Field ${String(field)} is not indexed in ${this.databaseName}`);
+		}
+		const now = this.getExpiryTime();
+		const ids = Array.from(index.get(value)).filter((id) => !this.isExpired(id, now));
+		return ids.map((id) => this.localDB.get(id)!);
+	}
+
+	/**
+	 * Starts a query over the objects in the local database.
+	 * @returns A chainable query.
+	 * @example
+	 * const count = playerDatabase.query().where("branch", "==", branch.identifier).count();
+	 */
+	query(): Query<T> {
+		return new Query(this);
 	}
 
 	/**
@@ -254,8 +1615,15 @@ class SimpleDatabase<T extends SimpleObject> {
 	 * @param id The id of the object.
 	 */
 	removeObject(id: string): void {
-		this.localDB = this.localDB.filter((object) => object.id !== id);
-		this.pendingChanges++;
+		this.write(() => {
+			this.history?.record(id);
+			this.clearExpiry(id);
+			this.unindexRecord(id);
+			this.localDB.delete(id);
+			this.changes.touch(id);
+			this.dirtyIds.add(id);
+			this.markChanged();
+		});
 	}
 
 	/**
@@ -263,24 +1631,273 @@ class SimpleDatabase<T extends SimpleObject> {
 	 * @returns An array of all objects in the local database.
 	 */
 	getAllObjects(): T[] {
-		return this.localDB;
+		const now = this.getExpiryTime();
+		return Array.from(this.localDB.values()).filter((object) => !this.isExpired(object.id, now));
 	}
 
 	/**
 	 * Removes all objects from the local database and updates the main database.
 	 */
 	eraseAllObjects(): void {
-		this.localDB = [];
-		this.pendingChanges++;
+		this.localDB.forEach((object) => {
+			this.history?.record(object.id);
+			this.changes.touch(object.id);
+			this.dirtyIds.add(object.id);
+		});
+		this.localDB.clear();
+		this.indexes.forEach((index) => index.clear());
+		if (this.expiries.size > 0) {
+			this.expiries.clear();
+			this.expiriesChanged = true;
+		}
+		this.markChanged();
+	}
+
+	/**
+	 * Subscribes to objects being added.
+	 * Changes are delivered once per tick, merged per object.
+	 * @param callback The function called with each added object.
+	 * @returns A function that unsubscribes the callback.
+	 */
+	onAdded(callback: AddedCallback<T>): () => void {
+		return this.changes.onAdded(callback);
+	}
+
+	/**
+	 * Subscribes to objects being updated. Updates that leave an object unchanged are not reported.
+	 * Changes are delivered once per tick, merged per object.
+	 * @param callback The function called with the previous and next value of each updated object.
+	 * @returns A function that unsubscribes the callback.
+	 * @example
+	 * const unsubscribe = playerDatabase.onUpdated((previous, next) => {
+	 * 	if (previous.playerLevel !== next.playerLevel) syncScoreboard(next);
+	 * });
+	 */
+	onUpdated(callback: UpdatedCallback<T>): () => void {
+		return this.changes.onUpdated(callback);
+	}
+
+	/**
+	 * Subscribes to objects being removed, including by eraseAllObjects.
+	 * Changes are delivered once per tick, merged per object.
+	 * @param callback The function called with the last value of each removed object.
+	 * @returns A function that unsubscribes the callback.
+	 */
+	onRemoved(callback: RemovedCallback<T>): () => void {
+		return this.changes.onRemoved(callback);
+	}
+
+	/**
+	 * Subscribes to objects being removed because they expired. Expired objects are reported to onRemoved as well.
+	 * Expiries are delivered on the tick after the object is swept.
+	 * @param callback The function called with the last value of each expired object.
+	 * @returns A function that unsubscribes the callback.
+	 * @example
+	 * cooldownDatabase.onExpired((cooldown) => world.getEntity(cooldown.id)?.sendMessage("Ready!"));
+	 */
+	onExpired(callback: ExpiredCallback<T>): () => void {
+		return this.expiredCallbacks.add(callback);
+	}
+
+	/**
+	 * Makes an object expire after the given number of ticks. It is then no longer read,
+	 * and removed and reported to onExpired by the next sweep, which runs every second and before every save.
+	 * @param id The id of the object.
+	 * @param ticks The number of ticks until the object expires.
+	 * @throws An error if the object does not exist.
+	 * @example
+	 * cooldownDatabase.addObject({ id: player.id, ability: "dash" });
+	 * cooldownDatabase.expireIn(player.id, 20 * 10);
+	 */
+	expireIn(id: string, ticks: number): void {
+		this.expireAt(id, this.getExpiryTime() + ticks);
+	}
+
+	/**
+	 * Makes an object expire at the given time of the expiry clock: the world time as returned by world.getAbsoluteTime,
+	 * or the current tick as returned by system.currentTick.
+	 * Updating the object keeps its expiry, removing it clears the expiry.
+	 * @param id The id of the object.
+	 * @param time The time the object expires at.
+	 * @throws An error if the object does not exist.
+	 */
+	expireAt(id: string, time: number): void {
+		if (!this.localDB.has(id)) {
+			throw new Error(`Object ${id} does not exist in ${this.databaseName}`);
+		}
+		this.expiries.set(id, time);
+		this.expiriesChanged = true;
+		this.nextExpiry = Math.min(this.nextExpiry, time);
+		this.markChanged();
+		SimpleDatabase.startExpiryJob();
+	}
+
+	/**
+	 * Removes the expiry of an object, so it is kept until removed.
+	 * @param id The id of the object.
+	 */
+	clearExpiry(id: string): void {
+		if (this.expiries.delete(id)) {
+			this.expiriesChanged = true;
+			this.markChanged();
+		}
+	}
+
+	/**
+	 * Retrieves the time an object expires at, in the expiry clock.
+	 * @param id The id of the object.
+	 * @returns The time, or undefined if the object does not expire.
+	 */
+	getExpiry(id: string): number | undefined {
+		return this.expiries.get(id);
+	}
+
+	/**
+	 * Retrieves the number of ticks left before an object expires.
+	 * @param id The id of the object.
+	 * @returns The remaining ticks, or undefined if the object does not expire.
+	 */
+	getRemainingTicks(id: string): number | undefined {
+		const expiresAt = this.expiries.get(id);
+		return expiresAt === undefined ? undefined : Math.max(0, expiresAt - this.getExpiryTime());
+	}
+
+	/**
+	 * Reads the current time of the expiry clock.
+	 */
+	private getExpiryTime(): number {
+		const environment = getDatabaseEnvironment();
+		return this.expiryClock === "tick" ? environment.getCurrentTick() : environment.getWorldTime();
+	}
+
+	/**
+	 * Checks if an object expired. Expired objects are hidden from reads until the next sweep removes them.
+	 */
+	private isExpired(id: string, now?: number): boolean {
+		if (this.expiries.size === 0) return false;
+		now ??= this.getExpiryTime();
+		if (now < this.nextExpiry) return false;
+		const expiresAt = this.expiries.get(id);
+		return expiresAt !== undefined && expiresAt <= now;
+	}
+
+	/**
+	 * Converts the expiries to the stored form. The current tick restarts with the world,
+	 * so with the tick clock the remaining ticks are stored instead of the time.
+	 */
+	private getStoredExpiries(): Record<string, number> {
+		if (this.expiryClock === "worldTime") return Object.fromEntries(this.expiries);
+		const now = this.getExpiryTime();
+		return Object.fromEntries(Array.from(this.expiries, ([id, expiresAt]) => [id, Math.max(0, expiresAt - now)]));
+	}
+
+	/**
+	 * Loads the stored expiries of the loaded objects. Expiries of objects that no longer exist are dropped.
+	 */
+	private loadExpiries() {
+		const offset = this.expiryClock === "tick" ? this.getExpiryTime() : 0;
+		for (const [id, stored] of Object.entries(this.mainDB.getExpiries(this.databaseName))) {
+			const expiresAt = stored + offset;
+			if (this.localDB.has(id)) {
+				this.expiries.set(id, expiresAt);
+				this.nextExpiry = Math.min(this.nextExpiry, expiresAt);
+			} else {
+				this.expiriesChanged = true;
+			}
+		}
+		if (this.expiries.size > 0) {
+			SimpleDatabase.startExpiryJob();
+		}
+	}
+
+	/**
+	 * Removes every expired object. Called by the shared expiry job and before every save, reads only skip expired objects.
+	 */
+	private sweepExpired() {
+		if (this.expiries.size === 0) return;
+		const now = this.getExpiryTime();
+		if (now < this.nextExpiry) return;
+
+		this.nextExpiry = Infinity;
+		this.write(() => {
+			for (const [id, expiresAt] of Array.from(this.expiries)) {
+				if (expiresAt > now) {
+					this.nextExpiry = Math.min(this.nextExpiry, expiresAt);
+					continue;
+				}
+				const object = this.localDB.get(id);
+				this.removeObject(id);
+				if (object) {
+					if (this.expired.length === 0) {
+						getDatabaseEnvironment().run(() => this.flushExpired());
+					}
+					this.expired.push(object);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Sweeps before an expired object is written again, so the new object does not inherit the expiry.
+	 */
+	private sweepExpiredObject(id: string) {
+		if (this.isExpired(id)) this.sweepExpired();
+	}
+
+	private flushExpired() {
+		const expired = this.expired;
+		this.expired = [];
+		expired.forEach((object) => this.expiredCallbacks.notify(object));
+	}
+
+	/**
+	 * Starts the job sweeping the expired objects of every open database, shared by all databases.
+	 * The job stops once no open database has expiring objects.
+	 */
+	private static startExpiryJob() {
+		const environment = getDatabaseEnvironment();
+		if (SimpleDatabase.expiryJob !== undefined && SimpleDatabase.expiryEnvironment === environment) return;
+		SimpleDatabase.expiryEnvironment = environment;
+		SimpleDatabase.expiryJob = environment.runInterval(() => {
+			let expiring = false;
+			for (const database of SimpleDatabase.openDatabases) {
+				database.sweepExpired();
+				expiring ||= database.expiries.size > 0;
+			}
+			if (!expiring) {
+				environment.clearRun(SimpleDatabase.expiryJob!);
+				SimpleDatabase.expiryJob = undefined;
+			}
+		}, SimpleDatabase.EXPIRY_SWEEP_INTERVAL);
 	}
 
 	/**
 	 * Iterates over all objects in the local database.
 	 * @param callback The function to be called for each object.
 	 */
-	forEach(callback: (object: SimpleObject, index: number) => void): void {
-		this.localDB.forEach((object, index) => callback(object, index));
+	forEach(callback: (object: T, index: number) => void): void {
+		this.getAllObjects().forEach(callback);
 	}
 }
 
-export { SimpleDatabase, SimpleObject };
+export {
+	DatabaseManager,
+	DatabaseIntegrityError,
+	SimpleDatabase,
+	SimpleObject,
+	SimpleDatabaseOptions,
+	Migration,
+	CompressionStats,
+	StorageMode,
+	StorageReport,
+	DatabaseUsage,
+	InvalidRecordPolicy,
+	QuarantinedRecord,
+	StorageTarget,
+	PersistencePolicy,
+	ExpiryClock,
+	SaveStats,
+	HistoryOptions,
+	HistoryEntryInfo,
+	HistoryDiff,
+};
@@ -0,0 +1,83 @@
+import type { Entity, ItemStack, Vector3 } from "@minecraft/server";
+import type { StorageAdapter } from "./storage";
+
+/**
+ * A scoreboard objective, as used by a ScoreboardStore. Participants are fake player names or loaded entities.
+ * The objectives of the game are ScoreboardObjectives.
+ */
+export interface ObjectiveAdapter {
+	hasParticipant(participant: Entity | string): boolean;
+	getScore(participant: Entity | string): number | undefined;
+	setScore(participant: Entity | string, score: number): void;
+	/** Adds to the score of a participant, starting at 0 if it has none, and returns the new score. */
+	addScore(participant: Entity | string, delta: number): number;
+	removeParticipant(participant: Entity | string): boolean;
+}
+
+/**
+ * The parts of the game the database layer depends on: the scheduler, the clocks, the stores of the world,
+ * entities and items, the scoreboard, and the events that end the life of stored data.
+ *
+ * The database modules never import the game runtime themselves, so they also run off-device,
+ * such as under Node with a MemoryEnvironment. The Minecraft environment is installed when the database module is imported.
+ */
+export interface DatabaseEnvironment {
+	/** The current tick, as system.currentTick. It restarts from 0 when the world loads. */
+	getCurrentTick(): number;
+	/** The world time, as world.getAbsoluteTime. It keeps counting across reloads, but commands such as `/time set` change it. */
+	getWorldTime(): number;
+	/** Runs a function on the next tick. */
+	run(callback: () => void): number;
+	/** Runs a function once after a number of ticks. */
+	runTimeout(callback: () => void, ticks: number): number;
+	/** Runs a function every number of ticks. */
+	runInterval(callback: () => void, ticks: number): number;
+	/** Cancels a run scheduled with run, runTimeout or runInterval. */
+	clearRun(runId: number): void;
+	/** Calls a function when the world shuts down, while databases can still be saved. */
+	onShutdown(callback: () => void): void;
+	/** The properties of the world, including the ones kept for block locations. */
+	getWorldStorage(): StorageAdapter;
+	/**
+	 * Creates the store of an entity or an item.
+	 * @throws An error if the target cannot hold properties, such as a stackable item.
+	 */
+	createTargetStorage(target: Entity | ItemStack): StorageAdapter;
+	/** Calls a function before an entity is removed or unloads. The function runs in a read-only context, so writes must be deferred. */
+	onEntityRemove(callback: (entity: Entity) => void): void;
+	/** Calls a function after an entity dies. */
+	onEntityDie(callback: (entity: Entity) => void): void;
+	/** Calls a function when a script event is received, such as from `/scriptevent`. */
+	onScriptEvent(callback: (id: string, message: string, sourceEntity: Entity | undefined) => void): void;
+	/** Calls a function after a block is broken by a player or destroyed by an explosion. */
+	onBlockRemove(callback: (dimensionId: string, location: Vector3) => void): void;
+	/** Retrieves the type id of a block, or undefined if its chunk is not loaded. */
+	getBlockTypeId(dimensionId: string, location: Vector3): string | undefined;
+	/** Retrieves a loaded entity, or undefined if it is not loaded. */
+	getEntity(id: string): Entity | undefined;
+	/** Retrieves a scoreboard objective, creating it with the display name if needed. */
+	getObjective(id: string, displayName: string): ObjectiveAdapter;
+}
+
+let environment: DatabaseEnvironment | undefined;
+
+/**
+ * Replaces the environment the databases run in, such as a MemoryEnvironment in tests.
+ * Databases that are already open keep using the scheduler they started with until they are closed.
+ * @param next The environment.
+ */
+export function setDatabaseEnvironment(next: DatabaseEnvironment): void {
+	environment = next;
+}
+
+/**
+ * Retrieves the environment the databases run in.
+ * @returns The environment.
+ * @throws An error if no environment is installed.
+ */
+export function getDatabaseEnvironment(): DatabaseEnvironment {
+	if (!environment) {
+		throw new Error("No database environment is installed, import the database module or call setDatabaseEnvironment");
+	}
+	return environment;
+}
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { setDatabaseEnvironment } from "./environment";
+import { ChangeHistory, HistorySource } from "./history";
+import { SimpleObject } from "./interfaces";
+import { MemoryEnvironment } from "./memory";
+
+interface Counter extends SimpleObject {
+	value: number;
+	ticks?: number;
+}
+
+let environment: MemoryEnvironment;
+let records: Map<string, Counter>;
+
+function source(): HistorySource<Counter> {
+	return {
+		getRecord: (id) => records.get(id),
+		getRecords: () => records.values(),
+		canCommit: () => true,
+		onCommit: () => {},
+	};
+}
+
+function set(history: ChangeHistory<Counter>, record: Counter) {
+	history.record(record.id);
+	records.set(record.id, record);
+}
+
+beforeEach(() => {
+	environment = new MemoryEnvironment();
+	setDatabaseEnvironment(environment);
+	records = new Map();
+});
+
+describe("ChangeHistory", () => {
+	it("groups the changes of one tick into one entry with the world time", () => {
+		const history = new ChangeHistory<Counter>("test:counters", {}, undefined, source());
+		environment.worldTime = 1000;
+		set(history, { id: "a", value: 1 });
+		set(history, { id: "b", value: 1 });
+		environment.tick();
+		set(history, { id: "a", value: 2 });
+		history.commit();
+
+		expect(history.list().map(({ seq, worldTime, ids }) => ({ seq, worldTime, ids }))).toEqual([
+			{ seq: 1, worldTime: 1000, ids: ["a", "b"] },
+			{ seq: 2, worldTime: 1001, ids: ["a"] },
+		]);
+	});
+
+	it("does not log changes of ignored fields alone", () => {
+		const history = new ChangeHistory<Counter>("test:counters", { ignoreFields: ["ticks"] }, undefined, source());
+		set(history, { id: "a", value: 1, ticks: 0 });
+		environment.tick();
+		set(history, { id: "a", value: 1, ticks: 1 });
+		history.commit();
+
+		expect(history.list()).toHaveLength(1);
+	});
+
+	it("rebuilds the records after an entry from the closest snapshot", () => {
+		const history = new ChangeHistory<Counter>("test:counters", { snapshotInterval: 2 }, undefined, source());
+		for (let value = 1; value <= 5; value++) {
+			set(history, { id: "a", value });
+			environment.tick();
+		}
+
+		expect(history.stateAt(4).get("a")).toEqual({ id: "a", value: 4 });
+		expect(history.diff(2, 4)).toEqual({
+			added: [],
+			removed: [],
+			updated: [{ previous: { id: "a", value: 2 }, next: { id: "a", value: 4 } }],
+		});
+	});
+
+	it("drops the oldest entries past the limit and keeps the log restorable", () => {
+		const history = new ChangeHistory<Counter>("test:counters", { maxEntries: 3, snapshotInterval: 100 }, undefined, source());
+		for (let value = 1; value <= 5; value++) {
+			set(history, { id: "a", value });
+			environment.tick();
+		}
+
+		expect(history.list().map((entry) => entry.seq)).toEqual([3, 4, 5]);
+		expect(history.stateAt(3).get("a")).toEqual({ id: "a", value: 3 });
+	});
+
+	it("finds the newest entry at or before a world time when the time was moved back", () => {
+		const history = new ChangeHistory<Counter>("test:counters", {}, undefined, source());
+		environment.worldTime = 5000;
+		set(history, { id: "a", value: 1 });
+		environment.tick();
+		environment.worldTime = 100;
+		set(history, { id: "a", value: 2 });
+		history.commit();
+
+		expect(history.findByWorldTime(6000)?.seq).toBe(2);
+		expect(history.findByWorldTime(1000)?.seq).toBe(2);
+		expect(history.findByWorldTime(50)).toBeUndefined();
+	});
+});
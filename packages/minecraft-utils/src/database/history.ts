@@ -0,0 +1,316 @@
+import { getDatabaseEnvironment } from "./environment";
+import { HistoryDiff, HistoryEntry, HistoryEntryInfo, HistoryOptions, SimpleObject } from "./interfaces";
+import { cloneValue, valuesEqual } from "./utils";
+
+/**
+ * The history as it is stored. The next sequence number is kept so numbers are never reused after entries are dropped.
+ */
+export interface StoredHistory<T extends SimpleObject> {
+	seq: number;
+	entries: HistoryEntry<T>[];
+}
+
+/**
+ * Checks if parsed data has the shape of a stored history. The entries themselves are trusted, as only ChangeHistory writes them.
+ * @param data The parsed data.
+ * @returns True if the data is a stored history.
+ */
+export function isStoredHistory<T extends SimpleObject>(data: unknown): data is StoredHistory<T> {
+	if (!data || typeof data !== "object") return false;
+	const history = data as Partial<Record<keyof StoredHistory<T>, unknown>>;
+	return typeof history.seq === "number" && Array.isArray(history.entries);
+}
+
+/**
+ * How a ChangeHistory reads the records of its database and reports new entries.
+ */
+export interface HistorySource<T extends SimpleObject> {
+	getRecord(id: string): T | undefined;
+	getRecords(): Iterable<T>;
+	/** Returns false while entries must not be closed, such as during a transaction. */
+	canCommit(): boolean;
+	/** Called after an entry is appended. */
+	onCommit(): void;
+}
+
+/**
+ * ChangeHistory keeps the append-only change log of a SimpleDatabase.
+ *
+ * The ids of changed records are collected until the end of the tick or until the reason changes.
+ * The records are then compared with their value as of the last entry, and the differences are appended as one entry.
+ * `record` must be called before a record changes, so an entry from an earlier tick is closed before the change.
+ *
+ * The first entry always holds a snapshot, so any kept entry can be restored by replaying the changes
+ * since the closest snapshot before it.
+ */
+export class ChangeHistory<T extends SimpleObject> {
+	private static readonly MAX_ENTRIES = 100;
+	private static readonly MAX_BYTES = 16384;
+	private static readonly SNAPSHOT_INTERVAL = 20;
+	private static readonly DEFAULT_REASON = "change";
+
+	private databaseName: string;
+	private maxEntries: number;
+	private maxBytes: number;
+	private snapshotInterval: number;
+	private ignoreFields: string[];
+
+	private entries: HistoryEntry<T>[];
+	private sizes: number[];
+	private nextSeq: number;
+	private lastSnapshotSeq: number | undefined;
+	private changed = false;
+
+	/** The records as of the last entry. */
+	private current: Map<string, T> = new Map();
+	private pending: Set<string> = new Set();
+	private pendingTick = 0;
+	private pendingWorldTime = 0;
+	private pendingTime = 0;
+	private pendingReason = ChangeHistory.DEFAULT_REASON;
+	private commitScheduled = false;
+	private reasons: string[] = [];
+
+	private source: HistorySource<T>;
+
+	/**
+	 * @param databaseName The name of the database, used in errors.
+	 * @param options The history limits.
+	 * @param stored The stored history, or undefined to start a new one.
+	 * @param source The records of the database.
+	 */
+	constructor(databaseName: string, options: HistoryOptions<T>, stored: StoredHistory<T> | undefined, source: HistorySource<T>) {
+		this.databaseName = databaseName;
+		this.maxEntries = Math.max(1, options.maxEntries ?? ChangeHistory.MAX_ENTRIES);
+		this.maxBytes = options.maxBytes ?? ChangeHistory.MAX_BYTES;
+		this.snapshotInterval = Math.max(1, options.snapshotInterval ?? ChangeHistory.SNAPSHOT_INTERVAL);
+		this.ignoreFields = options.ignoreFields ?? [];
+		this.source = source;
+
+		this.entries = stored?.entries ?? [];
+		this.sizes = this.entries.map((entry) => JSON.stringify(entry).length);
+		this.nextSeq = stored?.seq ?? 1;
+		this.entries.forEach((entry) => {
+			if (entry.snapshot) this.lastSnapshotSeq = entry.seq;
+		});
+		for (const record of source.getRecords()) {
+			this.current.set(record.id, cloneValue(record));
+		}
+	}
+
+	/**
+	 * The reason given to the changes made now.
+	 */
+	get reason(): string {
+		return this.reasons[this.reasons.length - 1] ?? ChangeHistory.DEFAULT_REASON;
+	}
+
+	/**
+	 * Runs a function with a reason given to the changes it makes, which are logged in their own entry.
+	 * If the function throws, its changes stay pending so a rollback can undo them before they are logged.
+	 * @param reason The reason.
+	 * @param fn The function to run.
+	 * @returns The value returned by the function.
+	 */
+	withReason<R>(reason: string, fn: () => R): R {
+		this.commit();
+		this.reasons.push(reason);
+		try {
+			const result = fn();
+			this.commit();
+			return result;
+		} finally {
+			this.reasons.pop();
+		}
+	}
+
+	/**
+	 * Marks a record as about to change. Must be called before every add, update or removal.
+	 * @param id The id of the record.
+	 */
+	record(id: string) {
+		const environment = getDatabaseEnvironment();
+		if (this.pending.size > 0 && (this.pendingTick !== environment.getCurrentTick() || this.pendingReason !== this.reason)) {
+			this.commit();
+		}
+		if (this.pending.size === 0) {
+			this.pendingTick = environment.getCurrentTick();
+			this.pendingWorldTime = environment.getWorldTime();
+			this.pendingTime = Date.now();
+			this.pendingReason = this.reason;
+		}
+		this.pending.add(id);
+		if (!this.commitScheduled) {
+			this.commitScheduled = true;
+			environment.run(() => {
+				this.commitScheduled = false;
+				this.commit();
+			});
+		}
+	}
+
+	/**
+	 * Closes the pending entry, appending it to the log if any record really changed.
+	 */
+	commit() {
+		if (this.pending.size === 0 || !this.source.canCommit()) return;
+
+		const changes: Record<string, T | null> = {};
+		let logged = false;
+		for (const id of this.pending) {
+			const previous = this.current.get(id);
+			const next = this.source.getRecord(id);
+			if (next) {
+				this.current.set(id, cloneValue(next));
+			} else {
+				this.current.delete(id);
+			}
+			if (this.isLoggedChange(previous, next)) {
+				changes[id] = next ? cloneValue(next) : null;
+				logged = true;
+			}
+		}
+		this.pending.clear();
+		if (!logged) return;
+
+		const entry: HistoryEntry<T> = {
+			seq: this.nextSeq++,
+			worldTime: this.pendingWorldTime,
+			time: this.pendingTime,
+			reason: this.pendingReason,
+			changes,
+		};
+		if (this.lastSnapshotSeq === undefined || entry.seq - this.lastSnapshotSeq >= this.snapshotInterval) {
+			entry.snapshot = Array.from(this.current.values(), (record) => cloneValue(record));
+			this.lastSnapshotSeq = entry.seq;
+		}
+		this.entries.push(entry);
+		this.sizes.push(JSON.stringify(entry).length);
+		this.changed = true;
+		this.trim();
+		this.source.onCommit();
+	}
+
+	private isLoggedChange(previous: T | undefined, next: T | undefined): boolean {
+		if (!previous || !next) return previous !== next;
+		if (this.ignoreFields.length === 0) return !valuesEqual(previous, next);
+
+		const strip = (record: T) => {
+			const stripped = { ...record } as Record<string, unknown>;
+			this.ignoreFields.forEach((field) => delete stripped[field]);
+			return stripped;
+		};
+		return !valuesEqual(strip(previous), strip(next));
+	}
+
+	/**
+	 * Drops the oldest entries until the log fits its limits, giving the new oldest entry a snapshot if it has none.
+	 */
+	private trim() {
+		let bytes = this.sizes.reduce((total, size) => total + size, 0);
+		while (this.entries.length > 1 && (this.entries.length > this.maxEntries || bytes > this.maxBytes)) {
+			const next = this.entries[1];
+			if (!next.snapshot) {
+				next.snapshot = Array.from(this.stateAt(next.seq).values());
+				bytes -= this.sizes[1];
+				this.sizes[1] = JSON.stringify(next).length;
+				bytes += this.sizes[1];
+			}
+			bytes -= this.sizes.shift()!;
+			this.entries.shift();
+		}
+	}
+
+	/**
+	 * Lists the entries, oldest first.
+	 * @returns The entries without the record values.
+	 */
+	list(): HistoryEntryInfo[] {
+		return this.entries.map(({ seq, worldTime, time, reason, changes }) => ({ seq, worldTime, time, reason, ids: Object.keys(changes) }));
+	}
+
+	/**
+	 * Rebuilds the records as they were right after an entry.
+	 * @param seq The sequence number of the entry.
+	 * @returns Clones of the records by id.
+	 * @throws An error if the entry is not in the log.
+	 */
+	stateAt(seq: number): Map<string, T> {
+		const index = this.entries.findIndex((entry) => entry.seq === seq);
+		if (index === -1) {
+			throw new Error(`History entry ${seq} of ${this.databaseName} does not exist`);
+		}
+
+		let start = index;
+		while (start > 0 && !this.entries[start].snapshot) start--;
+		const state = new Map<string, T>();
+		this.entries[start].snapshot?.forEach((record) => state.set(record.id, cloneValue(record)));
+		for (let i = start + 1; i <= index; i++) {
+			for (const [id, value] of Object.entries(this.entries[i].changes)) {
+				if (value) {
+					state.set(id, cloneValue(value));
+				} else {
+					state.delete(id);
+				}
+			}
+		}
+		return state;
+	}
+
+	/**
+	 * Compares the records right after one entry with the records right after another, or with the current records.
+	 * @param from The sequence number of the earlier point.
+	 * @param to The sequence number of the later point, or undefined for the current records.
+	 * @returns The records added, removed and updated between both points.
+	 */
+	diff(from: number, to?: number): HistoryDiff<T> {
+		const previous = this.stateAt(from);
+		const next = to === undefined ? new Map(Array.from(this.source.getRecords(), (record) => [record.id, record])) : this.stateAt(to);
+
+		const diff: HistoryDiff<T> = { added: [], removed: [], updated: [] };
+		next.forEach((record, id) => {
+			const before = previous.get(id);
+			if (!before) {
+				diff.added.push(record);
+			} else if (!valuesEqual(before, record)) {
+				diff.updated.push({ previous: before, next: record });
+			}
+		});
+		previous.forEach((record, id) => {
+			if (!next.has(id)) diff.removed.push(record);
+		});
+		return diff;
+	}
+
+	/**
+	 * Finds the entry with the highest sequence number made at or before a world time.
+	 * If the world time was moved back, entries made after that are found first, since entries are ordered by sequence number.
+	 * @param worldTime The world time.
+	 * @returns The entry, or undefined if every entry is newer.
+	 */
+	findByWorldTime(worldTime: number): HistoryEntry<T> | undefined {
+		for (let i = this.entries.length - 1; i >= 0; i--) {
+			if (this.entries[i].worldTime <= worldTime) return this.entries[i];
+		}
+	}
+
+	/**
+	 * Removes every entry. The next entry starts a new log with a snapshot.
+	 */
+	clear() {
+		this.entries = [];
+		this.sizes = [];
+		this.lastSnapshotSeq = undefined;
+		this.changed = true;
+	}
+
+	/**
+	 * Retrieves the history to store if it changed since the last call.
+	 * @returns The history to store, or undefined if it is unchanged.
+	 */
+	takeChanges(): StoredHistory<T> | undefined {
+		if (!this.changed) return undefined;
+		this.changed = false;
+		return { seq: this.nextSeq, entries: this.entries };
+	}
+}
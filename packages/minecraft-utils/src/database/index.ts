@@ -1 +1,41 @@
-export { SimpleDatabase, SimpleObject } from "./database";
+export {
+	DatabaseManager,
+	DatabaseIntegrityError,
+	SimpleDatabase,
+	SimpleObject,
+	SimpleDatabaseOptions,
+	Migration,
+	CompressionStats,
+	StorageMode,
+	StorageReport,
+	DatabaseUsage,
+	InvalidRecordPolicy,
+	QuarantinedRecord,
+	StorageTarget,
+	PersistencePolicy,
+	ExpiryClock,
+	SaveStats,
+	HistoryOptions,
+	HistoryEntryInfo,
+	HistoryDiff,
+} from "./database";
+export { BlockLocationTarget } from "./targets";
+export { EntityDatabaseRegistry, EntityDatabaseRegistryOptions } from "./registry";
+export {
+	StorageAdapter,
+	PropertyValue,
+	MemoryStorageAdapter,
+	MemoryStorageOptions,
+	ItemStorageAdapter,
+	setStorageAdapterFactory,
+} from "./storage";
+export { DynamicPropertyAdapter, minecraftEnvironment } from "./minecraft";
+export { DatabaseEnvironment, ObjectiveAdapter, setDatabaseEnvironment, getDatabaseEnvironment } from "./environment";
+export { MemoryEnvironment } from "./memory";
+export { CompressionCodec, registerCompressionCodec } from "./compression";
+export { Query, ComparisonOperator, SortDirection } from "./query";
+export { AddedCallback, UpdatedCallback, RemovedCallback, ExpiredCallback } from "./changes";
+export { ValueCodec, registerValueCodec, vector3Codec, rgbaCodec } from "./codecs";
+export { Schema, SchemaIssue, SchemaValidationError, Infer, schema, formatIssues } from "./schema";
+export { ScoreboardStore, ScoreboardStoreOptions, ScoreboardParticipantMode } from "./scoreboard";
+export { DatabaseAdmin, databaseAdmin } from "./admin";
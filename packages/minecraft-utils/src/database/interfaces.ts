@@ -1,6 +1,246 @@
+import type { Entity, ItemStack } from "@minecraft/server";
+import { Schema, SchemaIssue } from "./schema";
+import { BlockLocationTarget } from "./targets";
+
 /**
  * SimpleObject is an interface for objects with an id property.
  */
 export interface SimpleObject {
 	id: string;
 }
+
+/**
+ * Where a DatabaseManager stores its databases, in addition to the world.
+ */
+export type StorageTarget = Entity | ItemStack | BlockLocationTarget;
+
+/**
+ * A migration upgrades one stored record from the previous schema version to the next one.
+ * The record is freshly parsed from storage, so it may be modified in place or replaced.
+ * Its fields are unknown until checked, and a record that is not an object fails the migration before it is called.
+ */
+export type Migration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * How a SimpleDatabase is laid out in dynamic properties.
+ * - `single`: all records are stored together as one array.
+ * - `record`: each record is stored in its own property next to a manifest of ids, so a save only writes the changed records.
+ */
+export type StorageMode = "single" | "record";
+
+/**
+ * What happens to a record that does not match the schema of its database.
+ * - `drop`: the record is discarded with a warning.
+ * - `quarantine`: the record is discarded with a warning and kept aside in a quarantine database for inspection.
+ * - `throw`: a SchemaValidationError is thrown, from the constructor when loading or from the write method.
+ */
+export type InvalidRecordPolicy = "drop" | "quarantine" | "throw";
+
+/**
+ * When a SimpleDatabase writes its changes to storage.
+ * - `immediate`: after every write.
+ * - `debounced`: once no write happened for `delay` ticks, 20 by default, and at the latest `maxWait` ticks after the first unsaved write,
+ *   100 by default, so records written every tick are still saved.
+ * - `periodic`: every `interval` ticks if anything changed, 100 by default, or as soon as `threshold` changes are pending, 20 by default.
+ * - `manual`: only when forceSave or SimpleDatabase.flushAll is called, and on shutdown.
+ */
+export type PersistencePolicy =
+	| { mode: "immediate" }
+	| { mode: "debounced"; delay?: number; maxWait?: number }
+	| { mode: "periodic"; interval?: number; threshold?: number }
+	| { mode: "manual" };
+
+/**
+ * The clock the record expiries of a SimpleDatabase count in.
+ * - `worldTime`: the world time, as returned by world.getAbsoluteTime. Expiries keep counting down across reloads,
+ *   but move with `/time set` and `/time add`.
+ * - `tick`: the current tick, as returned by system.currentTick. Commands cannot change it, and since it restarts with
+ *   the world, the remaining ticks are stored instead, so expiries pause while the world is closed.
+ */
+export type ExpiryClock = "worldTime" | "tick";
+
+/**
+ * How long the saves of a SimpleDatabase took, in milliseconds.
+ */
+export interface SaveStats {
+	saves: number;
+	lastDuration: number;
+	averageDuration: number;
+	maxDuration: number;
+	/** The tick of the last save, or undefined if the database was not saved yet. */
+	lastSaveTick: number | undefined;
+}
+
+/**
+ * A record set aside because it did not match the schema of its database.
+ */
+export interface QuarantinedRecord {
+	record: unknown;
+	issues: SchemaIssue[];
+	/** Whether the record was found while loading or rejected by a write. */
+	source: "load" | "write";
+	/** The tick the record was quarantined at. */
+	tick: number;
+}
+
+/**
+ * How much history a SimpleDatabase keeps. The oldest entries are dropped once either limit is reached,
+ * but the latest entry is always kept.
+ */
+export interface HistoryOptions<T extends SimpleObject> {
+	/** The most entries kept, 100 by default. */
+	maxEntries?: number;
+	/** The most bytes the stored history may take, measured as JSON length, 16384 by default. */
+	maxBytes?: number;
+	/** Every this many entries, an entry stores every record so restoring does not replay the whole log, 20 by default. */
+	snapshotInterval?: number;
+	/** Fields whose changes alone are not logged, such as counters updated every tick. */
+	ignoreFields?: (keyof T & string)[];
+}
+
+/**
+ * One entry of the history of a SimpleDatabase, holding every change made in one tick for one reason.
+ */
+export interface HistoryEntry<T extends SimpleObject> {
+	/** The sequence number of the entry, increasing for the lifetime of the database. It orders the entries. */
+	seq: number;
+	/**
+	 * The world time of the changes, as returned by world.getAbsoluteTime. It keeps counting across reloads,
+	 * but `/time set` can move it back, so it does not always increase with the sequence number.
+	 */
+	worldTime: number;
+	/** The real time of the changes, in milliseconds since the epoch. */
+	time: number;
+	reason: string;
+	/** The new value of each changed record, null for removed records. */
+	changes: Record<string, T | null>;
+	/** Every record after the changes, stored periodically. */
+	snapshot?: T[];
+}
+
+/**
+ * A history entry as listed by SimpleDatabase.getHistory, without the record values.
+ */
+export interface HistoryEntryInfo {
+	seq: number;
+	worldTime: number;
+	time: number;
+	reason: string;
+	/** The ids of the changed records. */
+	ids: string[];
+}
+
+/**
+ * The differences between two points of the history of a SimpleDatabase.
+ */
+export interface HistoryDiff<T extends SimpleObject> {
+	added: T[];
+	removed: T[];
+	updated: { previous: T; next: T }[];
+}
+
+/**
+ * Options passed by SimpleDatabase subclasses to the SimpleDatabase constructor.
+ */
+export interface SimpleDatabaseOptions<T extends SimpleObject> {
+	/**
+	 * Fields to maintain secondary indexes for, queried with `findBy`.
+	 * @example { indexes: ["branch"] }
+	 */
+	indexes?: (keyof T & string)[];
+	/**
+	 * Ordered migrations, the schema version of the database is the number of migrations.
+	 * Stored records older than that version are upgraded once when the database is loaded.
+	 * @example { migrations: [(record) => ({ ...record, color: record.color ?? DEFAULT_COLOR })] }
+	 */
+	migrations?: Migration[];
+	/**
+	 * The id of a registered compression codec to store the database with, such as "lz".
+	 * Databases written without compression still load after a codec is selected.
+	 */
+	compression?: string;
+	/**
+	 * The storage layout, "single" by default. Switching an existing database to another mode converts it on the next save.
+	 */
+	storage?: StorageMode;
+	/**
+	 * The schema every record must match. Records are checked when loaded, after migrations, and on every add or update.
+	 * @example { schema: schema.object({ id: schema.string(), level: schema.number({ min: 0 }) }) }
+	 */
+	schema?: Schema<T>;
+	/**
+	 * What happens to records that do not match the schema, "drop" by default.
+	 */
+	invalidPolicy?: InvalidRecordPolicy;
+	/**
+	 * When changes are written to storage, periodic by default.
+	 * @example { persistence: { mode: "debounced", delay: 40 } }
+	 */
+	persistence?: PersistencePolicy;
+	/**
+	 * How the stored data is protected against corruption, in addition to the checksums of chunked databases.
+	 * - `checksum`: every save stores a checksum, so corruption is detected on load.
+	 * - `backup`: every save also keeps the previous snapshot, loaded if the current one is corrupted.
+	 * Both store small databases in chunks, and in record storage they apply to each record.
+	 */
+	integrity?: "checksum" | "backup";
+	/**
+	 * The clock that expireIn and expireAt count in, "worldTime" by default.
+	 * @example { expiryClock: "tick" }
+	 */
+	expiryClock?: ExpiryClock;
+	/**
+	 * Keeps an append-only log of the changes, which can be listed, compared and restored. Disabled by default.
+	 * The log is saved with the database, under the database name followed by `__history`.
+	 * @example { history: { maxEntries: 200, ignoreFields: ["levelTick", "stateTick"] } }
+	 */
+	history?: HistoryOptions<T>;
+}
+
+/**
+ * Options for writing a JSON database with the DatabaseManager.
+ */
+export interface JSONDatabaseOptions {
+	/** The id of a registered compression codec. */
+	compression?: string;
+	/** Stores a checksum even if the database fits in a single property. Chunked databases always have one. */
+	checksum?: boolean;
+	/** Keeps the previous generation as a backup, loaded if the current one fails verification. Implies a checksum. */
+	backup?: boolean;
+}
+
+/**
+ * How much space a compression codec saves for a stored database, measured in characters.
+ */
+export interface CompressionStats {
+	/** The codec id, or undefined if the database is stored uncompressed. */
+	codec: string | undefined;
+	rawLength: number;
+	storedLength: number;
+	savedLength: number;
+	/** The stored length divided by the raw length. */
+	ratio: number;
+}
+
+/**
+ * The storage used by one database and by each property it owns, in bytes.
+ */
+export interface DatabaseUsage {
+	name: string;
+	bytes: number;
+	/** The main property first, then its chunks, records and schema version. */
+	properties: { id: string; bytes: number }[];
+}
+
+/**
+ * The storage used by the databases of a world or an entity, in bytes.
+ */
+export interface StorageReport {
+	targetId: string;
+	/** Everything stored in the dynamic properties of the target, as reported by the game. */
+	totalBytes: number;
+	/** The sum of the reported databases. */
+	databaseBytes: number;
+	/** The databases, largest first. */
+	databases: DatabaseUsage[];
+}
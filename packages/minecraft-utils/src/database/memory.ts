@@ -0,0 +1,261 @@
+import type { Entity, ItemStack, Vector3 } from "@minecraft/server";
+import { DatabaseEnvironment, ObjectiveAdapter } from "./environment";
+import { MemoryStorageAdapter, MemoryStorageOptions, StorageAdapter } from "./storage";
+
+interface ScheduledRun {
+	callback: () => void;
+	dueTick: number;
+	/** The number of ticks between two runs, undefined for runs that happen once. */
+	interval: number | undefined;
+}
+
+/**
+ * A scoreboard objective kept in memory. Entities and fake players with the same id are different participants, as in the game.
+ */
+class MemoryObjective implements ObjectiveAdapter {
+	private scores: Map<string, number> = new Map();
+
+	constructor(readonly displayName: string) {}
+
+	hasParticipant(participant: Entity | string): boolean {
+		return this.scores.has(this.getKey(participant));
+	}
+
+	getScore(participant: Entity | string): number | undefined {
+		return this.scores.get(this.getKey(participant));
+	}
+
+	setScore(participant: Entity | string, score: number): void {
+		this.scores.set(this.getKey(participant), score);
+	}
+
+	addScore(participant: Entity | string, delta: number): number {
+		const score = (this.getScore(participant) ?? 0) + delta;
+		this.setScore(participant, score);
+		return score;
+	}
+
+	removeParticipant(participant: Entity | string): boolean {
+		return this.scores.delete(this.getKey(participant));
+	}
+
+	private getKey(participant: Entity | string) {
+		return typeof participant === "string" ? `name|${participant}` : `entity|${participant.id}`;
+	}
+}
+
+/**
+ * MemoryEnvironment runs databases without a world, such as in the tests under Node.
+ * Properties are kept in MemoryStorageAdapters, and time only advances when `tick` is called.
+ * Entities and items are any object with the fields the databases read: `id` and `isValid` for entities,
+ * `typeId` and `isStackable` for items. Entities are only found by id once they are loaded with `loadEntity`.
+ *
+ * @example
+ * const environment = new MemoryEnvironment();
+ * setDatabaseEnvironment(environment);
+ * const database = new CooldownDatabase();
+ * database.addObject({ id: "dash", ticks: 100 });
+ * environment.tick(20); // runs the scheduled saves
+ */
+export class MemoryEnvironment implements DatabaseEnvironment {
+	/** Every world property, including the ones kept for block locations. */
+	readonly world: MemoryStorageAdapter;
+	currentTick = 0;
+	worldTime = 0;
+
+	private stores: Map<object, MemoryStorageAdapter> = new Map();
+	private runs: Map<number, ScheduledRun> = new Map();
+	private nextRunId = 1;
+	private blocks: Map<string, string> = new Map();
+	private entities: Map<string, Entity> = new Map();
+	private objectives: Map<string, MemoryObjective> = new Map();
+	private shutdownCallbacks: (() => void)[] = [];
+	private entityRemoveCallbacks: ((entity: Entity) => void)[] = [];
+	private entityDieCallbacks: ((entity: Entity) => void)[] = [];
+	private scriptEventCallbacks: ((id: string, message: string, sourceEntity: Entity | undefined) => void)[] = [];
+	private blockRemoveCallbacks: ((dimensionId: string, location: Vector3) => void)[] = [];
+
+	/**
+	 * @param options The limits of the world store.
+	 */
+	constructor(options: MemoryStorageOptions = {}) {
+		this.world = new MemoryStorageAdapter({ id: "world", ...options });
+	}
+
+	getCurrentTick(): number {
+		return this.currentTick;
+	}
+
+	getWorldTime(): number {
+		return this.worldTime;
+	}
+
+	run(callback: () => void): number {
+		return this.schedule(callback, 1, undefined);
+	}
+
+	runTimeout(callback: () => void, ticks: number): number {
+		return this.schedule(callback, ticks, undefined);
+	}
+
+	runInterval(callback: () => void, ticks: number): number {
+		return this.schedule(callback, ticks, Math.max(1, ticks));
+	}
+
+	clearRun(runId: number): void {
+		this.runs.delete(runId);
+	}
+
+	onShutdown(callback: () => void): void {
+		this.shutdownCallbacks.push(callback);
+	}
+
+	getWorldStorage(): StorageAdapter {
+		return this.world;
+	}
+
+	createTargetStorage(target: Entity | ItemStack): StorageAdapter {
+		if ("isStackable" in target && target.isStackable) {
+			throw new Error(`Databases cannot be stored on ${target.typeId}, only non-stackable items have dynamic properties`);
+		}
+		let store = this.stores.get(target);
+		if (!store) {
+			// Items are told apart by the id their ItemStorageAdapter stores on them
+			const id = "id" in target ? target.id : "item";
+			store = new MemoryStorageAdapter({ id, isValid: () => !("isValid" in target) || target.isValid });
+			this.stores.set(target, store);
+		}
+		return store;
+	}
+
+	onEntityRemove(callback: (entity: Entity) => void): void {
+		this.entityRemoveCallbacks.push(callback);
+	}
+
+	onEntityDie(callback: (entity: Entity) => void): void {
+		this.entityDieCallbacks.push(callback);
+	}
+
+	onScriptEvent(callback: (id: string, message: string, sourceEntity: Entity | undefined) => void): void {
+		this.scriptEventCallbacks.push(callback);
+	}
+
+	onBlockRemove(callback: (dimensionId: string, location: Vector3) => void): void {
+		this.blockRemoveCallbacks.push(callback);
+	}
+
+	getBlockTypeId(dimensionId: string, location: Vector3): string | undefined {
+		return this.blocks.get(this.getBlockKey(dimensionId, location));
+	}
+
+	getEntity(id: string): Entity | undefined {
+		return this.entities.get(id);
+	}
+
+	getObjective(id: string, displayName: string): ObjectiveAdapter {
+		let objective = this.objectives.get(id);
+		if (!objective) {
+			objective = new MemoryObjective(displayName);
+			this.objectives.set(id, objective);
+		}
+		return objective;
+	}
+
+	/**
+	 * Advances time, running every scheduled function that comes due, in the order they were scheduled.
+	 * The world time advances with the current tick.
+	 * @param count The number of ticks.
+	 */
+	tick(count: number = 1) {
+		for (let i = 0; i < count; i++) {
+			this.currentTick++;
+			this.worldTime++;
+			for (const [runId, run] of Array.from(this.runs)) {
+				if (run.dueTick > this.currentTick || !this.runs.has(runId)) continue;
+				if (run.interval === undefined) {
+					this.runs.delete(runId);
+				} else {
+					run.dueTick += run.interval;
+				}
+				run.callback();
+			}
+		}
+	}
+
+	/**
+	 * Calls the shutdown callbacks, as when the world closes.
+	 */
+	shutdown() {
+		this.shutdownCallbacks.forEach((callback) => callback());
+	}
+
+	/**
+	 * Sends a script event, as `/scriptevent` would.
+	 * @param id The event id.
+	 * @param message The event message.
+	 * @param sourceEntity The entity running the command, if any.
+	 */
+	sendScriptEvent(id: string, message: string, sourceEntity?: Entity) {
+		this.scriptEventCallbacks.forEach((callback) => callback(id, message, sourceEntity));
+	}
+
+	/**
+	 * Places a block, or removes it silently like a piston or a command would.
+	 * @param dimensionId The dimension of the block.
+	 * @param location The block location.
+	 * @param typeId The type of the block, or undefined to unload its chunk.
+	 */
+	setBlock(dimensionId: string, location: Vector3, typeId: string | undefined) {
+		const key = this.getBlockKey(dimensionId, location);
+		if (typeId === undefined) {
+			this.blocks.delete(key);
+		} else {
+			this.blocks.set(key, typeId);
+		}
+	}
+
+	/**
+	 * Replaces a block with air and reports it as broken, like a player would.
+	 * @param dimensionId The dimension of the block.
+	 * @param location The block location.
+	 */
+	breakBlock(dimensionId: string, location: Vector3) {
+		this.setBlock(dimensionId, location, "minecraft:air");
+		this.blockRemoveCallbacks.forEach((callback) => callback(dimensionId, location));
+	}
+
+	/**
+	 * Loads an entity, so it can be retrieved by id.
+	 * @param entity The entity.
+	 */
+	loadEntity(entity: Entity) {
+		this.entities.set(entity.id, entity);
+	}
+
+	/**
+	 * Reports an entity as removed and unloads it. As in game, the callbacks must not write the entity.
+	 * @param entity The entity.
+	 */
+	removeEntity(entity: Entity) {
+		this.entityRemoveCallbacks.forEach((callback) => callback(entity));
+		this.entities.delete(entity.id);
+	}
+
+	/**
+	 * Reports an entity as dead.
+	 * @param entity The entity.
+	 */
+	killEntity(entity: Entity) {
+		this.entityDieCallbacks.forEach((callback) => callback(entity));
+	}
+
+	private schedule(callback: () => void, ticks: number, interval: number | undefined): number {
+		const runId = this.nextRunId++;
+		this.runs.set(runId, { callback, dueTick: this.currentTick + Math.max(1, ticks), interval });
+		return runId;
+	}
+
+	private getBlockKey(dimensionId: string, location: Vector3) {
+		return `${dimensionId}|${Math.floor(location.x)},${Math.floor(location.y)},${Math.floor(location.z)}`;
+	}
+}
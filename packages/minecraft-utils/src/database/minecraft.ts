@@ -0,0 +1,113 @@
+import { Entity, ItemStack, system, world, World } from "@minecraft/server";
+import { DatabaseEnvironment, setDatabaseEnvironment } from "./environment";
+import { StorageTarget } from "./interfaces";
+import { ItemStorageAdapter, PropertyValue, StorageAdapter } from "./storage";
+import { BlockLocationTarget } from "./targets";
+
+/**
+ * DynamicPropertyAdapter stores properties as dynamic properties of the world, an entity, a non-stackable item or a block location.
+ * It does not enforce the limits of items, databases on items are stored through an ItemStorageAdapter wrapping it.
+ */
+export class DynamicPropertyAdapter implements StorageAdapter {
+	private static readonly DYNAMIC_PROP_MAX_LENGTH = 32767;
+
+	readonly maxValueLength = DynamicPropertyAdapter.DYNAMIC_PROP_MAX_LENGTH;
+	private target: Entity | World | ItemStack | BlockLocationTarget;
+
+	/**
+	 * @param target Where the properties are stored. If undefined, the world is used.
+	 * @throws An error if the target is a stackable item, which cannot hold dynamic properties.
+	 */
+	constructor(target: StorageTarget | undefined) {
+		if (target instanceof ItemStack && target.isStackable) {
+			throw new Error(`Databases cannot be stored on ${target.typeId}, only non-stackable items have dynamic properties`);
+		}
+		this.target = target ?? world;
+	}
+
+	/**
+	 * The entity id, "world", `item|<id>` for items with the id stored on the item, or the block key for block locations.
+	 */
+	get id(): string {
+		if (this.target instanceof Entity) return this.target.id;
+		if (this.target instanceof ItemStack) return new ItemStorageAdapter(this).id;
+		if (this.target instanceof BlockLocationTarget) return this.target.key.slice(0, -1);
+		return "world";
+	}
+
+	getProperty(key: string) {
+		return this.target.getDynamicProperty(key);
+	}
+
+	setProperty(key: string, value: PropertyValue | undefined) {
+		this.target.setDynamicProperty(key, value);
+	}
+
+	getPropertyIds(): string[] {
+		const ids = this.target.getDynamicPropertyIds();
+		// Block location data is kept in world properties but belongs to the block
+		return this.target === world ? ids.filter((id) => !BlockLocationTarget.isBlockProperty(id)) : ids;
+	}
+
+	getTotalByteCount(): number {
+		return this.target.getDynamicPropertyTotalByteCount();
+	}
+
+	isValid(): boolean {
+		return !(this.target instanceof Entity) || this.target.isValid;
+	}
+}
+
+/** Every dynamic property of the world, including the ones kept for block locations. */
+const worldStorage: StorageAdapter = {
+	id: "world",
+	maxValueLength: 32767,
+	getProperty: (key) => world.getDynamicProperty(key),
+	setProperty: (key, value) => world.setDynamicProperty(key, value),
+	getPropertyIds: () => world.getDynamicPropertyIds(),
+	getTotalByteCount: () => world.getDynamicPropertyTotalByteCount(),
+};
+
+/**
+ * The environment of the databases in the game: the system scheduler, dynamic properties and world events.
+ */
+export const minecraftEnvironment: DatabaseEnvironment = {
+	getCurrentTick: () => system.currentTick,
+	getWorldTime: () => world.getAbsoluteTime(),
+	run: (callback) => system.run(callback),
+	runTimeout: (callback, ticks) => system.runTimeout(callback, ticks),
+	runInterval: (callback, ticks) => system.runInterval(callback, ticks),
+	clearRun: (runId) => system.clearRun(runId),
+	onShutdown: (callback) => {
+		// No tick runs after shutdown, so the callback cannot be deferred
+		system.beforeEvents.shutdown.subscribe(() => callback());
+	},
+	getWorldStorage: () => worldStorage,
+	createTargetStorage: (target) => new DynamicPropertyAdapter(target),
+	onEntityRemove: (callback) => {
+		world.beforeEvents.entityRemove.subscribe((event) => callback(event.removedEntity));
+	},
+	onEntityDie: (callback) => {
+		world.afterEvents.entityDie.subscribe((event) => callback(event.deadEntity));
+	},
+	onScriptEvent: (callback) => {
+		system.afterEvents.scriptEventReceive.subscribe((event) => callback(event.id, event.message, event.sourceEntity));
+	},
+	onBlockRemove: (callback) => {
+		world.afterEvents.playerBreakBlock.subscribe((event) => callback(event.dimension.id, event.block.location));
+		world.afterEvents.blockExplode.subscribe((event) => callback(event.dimension.id, event.block.location));
+	},
+	getBlockTypeId: (dimensionId, location) => {
+		try {
+			return world.getDimension(dimensionId).getBlock(location)?.typeId;
+		} catch {
+			// The chunk is not loaded
+			return undefined;
+		}
+	},
+	getEntity: (id) => world.getEntity(id),
+	getObjective: (id, displayName) => world.scoreboard.getObjective(id) ?? world.scoreboard.addObjective(id, displayName),
+};
+
+setDatabaseEnvironment(minecraftEnvironment);
+BlockLocationTarget.subscribeCleanup();
@@ -0,0 +1,182 @@
+import { SimpleObject } from "./interfaces";
+
+export type ComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+export type SortDirection = "asc" | "desc";
+
+/**
+ * The read methods of a SimpleDatabase that a Query runs against.
+ */
+export interface QuerySource<T extends SimpleObject> {
+	getAllObjects(): T[];
+	hasIndex(field: keyof T): boolean;
+	findBy<K extends keyof T>(field: K, value: T[K]): T[];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+	if (a === b) return 0;
+	// Missing values are sorted last in ascending order
+	if (a === undefined || a === null) return 1;
+	if (b === undefined || b === null) return -1;
+	return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function matchesOperator(value: unknown, operator: ComparisonOperator, expected: unknown): boolean {
+	if (operator === "==") return value === expected;
+	if (operator === "!=") return value !== expected;
+
+	// Range operators never match missing values
+	if (value === undefined || value === null) return false;
+	const order = compareValues(value, expected);
+	switch (operator) {
+		case ">":
+			return order > 0;
+		case ">=":
+			return order >= 0;
+		case "<":
+			return order < 0;
+		case "<=":
+			return order <= 0;
+	}
+}
+
+/**
+ * Query is a chainable, lazily evaluated query over the objects of a SimpleDatabase.
+ * Equality conditions on indexed fields are answered from the index instead of scanning every object.
+ *
+ * @example
+ * const topPlayers = playerDatabase
+ * 	.query()
+ * 	.where("branch", "==", branch.identifier)
+ * 	.where((player) => player.playerState === playerState.SETUP_PLAYER)
+ * 	.orderBy("playerLevel")
+ * 	.limit(10)
+ * 	.toArray();
+ */
+export class Query<T extends SimpleObject> {
+	private source: QuerySource<T>;
+	// Predicates are held as methods and fields as strings, so a query of records stays assignable to a Query<SimpleObject>
+	private predicates: { matches(object: T): boolean }[] = [];
+	private equalities: { field: string; value: unknown }[] = [];
+	private sorters: { field: string; direction: SortDirection }[] = [];
+	private limitCount: number | undefined;
+	private offsetCount = 0;
+
+	constructor(source: QuerySource<T>) {
+		this.source = source;
+	}
+
+	/**
+	 * Keeps only the objects that match a predicate, or whose field compares to a value.
+	 * @param predicate The function called for each object.
+	 * @returns The query, for chaining.
+	 */
+	where(predicate: (object: T) => boolean): this;
+	/**
+	 * @param field The field to compare.
+	 * @param operator The comparison operator.
+	 * @param value The value to compare the field with.
+	 * @returns The query, for chaining.
+	 */
+	where<K extends keyof T>(field: K, operator: ComparisonOperator, value: T[K]): this;
+	where<K extends keyof T>(predicateOrField: ((object: T) => boolean) | K, operator?: ComparisonOperator, value?: T[K]): this {
+		if (typeof predicateOrField === "function") {
+			this.predicates.push({ matches: predicateOrField });
+			return this;
+		}
+
+		const field = predicateOrField;
+		const op = operator!;
+		if (op === "==") {
+			this.equalities.push({ field: String(field), value });
+		}
+		this.predicates.push({ matches: (object) => matchesOperator(object[field], op, value) });
+		return this;
+	}
+
+	/**
+	 * Sorts the results by a field. Later calls break ties left by earlier ones.
+	 * @param field The field to sort by.
+	 * @param direction The sort direction, ascending by default.
+	 * @returns The query, for chaining.
+	 */
+	orderBy(field: keyof T, direction: SortDirection = "asc"): this {
+		this.sorters.push({ field: String(field), direction });
+		return this;
+	}
+
+	/**
+	 * Limits the number of results.
+	 * @param count The maximum number of results.
+	 * @returns The query, for chaining.
+	 */
+	limit(count: number): this {
+		this.limitCount = count;
+		return this;
+	}
+
+	/**
+	 * Skips a number of results, applied before the limit.
+	 * @param count The number of results to skip.
+	 * @returns The query, for chaining.
+	 */
+	offset(count: number): this {
+		this.offsetCount = count;
+		return this;
+	}
+
+	/**
+	 * Picks the candidate objects, using the most selective indexed equality condition if there is one.
+	 */
+	private getCandidates(): T[] {
+		let candidates: T[] | undefined;
+		for (const { field, value } of this.equalities) {
+			if (!this.source.hasIndex(field as keyof T)) continue;
+			const matches = this.source.findBy(field as keyof T, value as T[keyof T]);
+			if (!candidates || matches.length < candidates.length) {
+				candidates = matches;
+			}
+		}
+		return candidates ?? this.source.getAllObjects();
+	}
+
+	private getMatches(): T[] {
+		return this.getCandidates().filter((object) => this.predicates.every((predicate) => predicate.matches(object)));
+	}
+
+	/**
+	 * Runs the query.
+	 * @returns The matching objects, sorted and paginated.
+	 */
+	toArray(): T[] {
+		const results = this.getMatches();
+
+		if (this.sorters.length > 0) {
+			results.sort((a, b) => {
+				for (const { field, direction } of this.sorters) {
+					const order = compareValues(a[field as keyof T], b[field as keyof T]);
+					if (order !== 0) return direction === "asc" ? order : -order;
+				}
+				return 0;
+			});
+		}
+
+		const end = this.limitCount === undefined ? undefined : this.offsetCount + this.limitCount;
+		return results.slice(this.offsetCount, end);
+	}
+
+	/**
+	 * Runs the query and returns its first result.
+	 * @returns The first matching object, or undefined if nothing matches.
+	 */
+	first(): T | undefined {
+		return this.toArray()[0];
+	}
+
+	/**
+	 * Counts the matching objects, ignoring limit and offset.
+	 * @returns The number of matching objects.
+	 */
+	count(): number {
+		return this.getMatches().length;
+	}
+}
@@ -0,0 +1,79 @@
+import type { Entity } from "@minecraft/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SimpleDatabase } from "./database";
+import { setDatabaseEnvironment } from "./environment";
+import { SimpleObject } from "./interfaces";
+import { MemoryEnvironment } from "./memory";
+import { EntityDatabaseRegistry } from "./registry";
+
+interface Cooldown extends SimpleObject {
+	ticks: number;
+}
+
+class CooldownDatabase extends SimpleDatabase<Cooldown> {
+	constructor(entity: Entity) {
+		super("cooldowns", entity);
+	}
+}
+
+let environment: MemoryEnvironment;
+
+function createEntity(id: string): Entity & { isValid: boolean } {
+	return { id, isValid: true } as unknown as Entity & { isValid: boolean };
+}
+
+beforeEach(() => {
+	environment = new MemoryEnvironment();
+	setDatabaseEnvironment(environment);
+});
+
+describe("EntityDatabaseRegistry", () => {
+	it("saves the database of a removed entity on the next tick instead of during the removal event", () => {
+		const registry = new EntityDatabaseRegistry((entity) => new CooldownDatabase(entity));
+		const entity = createEntity("-1");
+		const storage = environment.createTargetStorage(entity);
+		registry.get(entity).addObject({ id: "dash", ticks: 100 });
+		const write = vi.spyOn(storage, "setProperty");
+
+		environment.removeEntity(entity);
+		expect(write).not.toHaveBeenCalled();
+		expect(registry.has("-1")).toBe(true);
+
+		environment.tick();
+		expect(registry.has("-1")).toBe(false);
+		expect(storage.getProperty("starktma:cooldowns")).toContain("dash");
+	});
+
+	it("unloads without saving when the entity can no longer be written", () => {
+		const registry = new EntityDatabaseRegistry((entity) => new CooldownDatabase(entity));
+		const entity = createEntity("-1");
+		const storage = environment.createTargetStorage(entity);
+		registry.get(entity).addObject({ id: "dash", ticks: 100 });
+		const stored = storage.getProperty("starktma:cooldowns");
+
+		environment.removeEntity(entity);
+		entity.isValid = false;
+		environment.tick();
+
+		expect(registry.has("-1")).toBe(false);
+		expect(storage.getProperty("starktma:cooldowns")).toBe(stored);
+		expect(stored).not.toContain("dash");
+	});
+
+	it("only deletes the data of dead entities with wipeOnDeath", () => {
+		const kept = new EntityDatabaseRegistry((entity) => new CooldownDatabase(entity));
+		const wiped = new EntityDatabaseRegistry((entity) => new CooldownDatabase(entity), { wipeOnDeath: true });
+		const first = createEntity("-1");
+		const second = createEntity("-2");
+		kept.get(first).addObject({ id: "dash", ticks: 100 });
+		kept.get(first).forceSave();
+		wiped.get(second).addObject({ id: "dash", ticks: 100 });
+		wiped.get(second).forceSave();
+
+		environment.killEntity(first);
+		environment.killEntity(second);
+
+		expect(environment.createTargetStorage(first).getProperty("starktma:cooldowns")).toBeTypeOf("string");
+		expect(environment.createTargetStorage(second).getPropertyIds()).toEqual([]);
+	});
+});
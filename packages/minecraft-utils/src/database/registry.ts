@@ -0,0 +1,166 @@
+import type { Entity } from "@minecraft/server";
+import { SimpleDatabase } from "./database";
+import { getDatabaseEnvironment } from "./environment";
+import { SimpleObject } from "./interfaces";
+
+/**
+ * Options for an EntityDatabaseRegistry.
+ */
+export interface EntityDatabaseRegistryOptions {
+	/**
+	 * Deletes the stored data of an entity when it dies, such as effects that should not survive a respawn.
+	 * Only databases loaded in the registry are wiped. Off by default.
+	 */
+	wipeOnDeath?: boolean;
+	/** Deletes the stored data of empty databases when they are unloaded, so entities do not keep empty databases. Off by default. */
+	compactEmpty?: boolean;
+	/** The number of ticks between two checks for removed entities and empty databases, 100 by default. */
+	sweepInterval?: number;
+}
+
+/**
+ * EntityDatabaseRegistry opens one database per entity on demand and keeps track of them,
+ * so databases are closed when their entity is removed or unloads instead of staying open forever.
+ *
+ * Databases are unloaded on the tick after their entity is removed or unloads, since the removal event cannot write.
+ * They are saved then if the entity can still be written, otherwise changes not saved yet are lost.
+ * Entities that became invalid without a removal event are caught by a periodic sweep.
+ * With `compactEmpty`, empty databases are also unloaded by the sweep.
+ *
+ * @example
+ * const cooldowns = new EntityDatabaseRegistry((entity) => new CooldownDatabase(entity), { wipeOnDeath: true, compactEmpty: true });
+ * cooldowns.get(player).addObject({ id: "dash", ticks: 100 });
+ */
+export class EntityDatabaseRegistry<D extends SimpleDatabase<SimpleObject>> {
+	private static readonly SWEEP_INTERVAL = 100;
+
+	private databases: Map<string, { entity: Entity; database: D }> = new Map();
+	private create: (entity: Entity) => D;
+	private options: EntityDatabaseRegistryOptions;
+	private sweepJob: number | undefined;
+	private subscribed = false;
+
+	/**
+	 * @param create Opens the database of an entity.
+	 * @param options Policies for deaths and empty databases.
+	 */
+	constructor(create: (entity: Entity) => D, options: EntityDatabaseRegistryOptions = {}) {
+		this.create = create;
+		this.options = options;
+	}
+
+	/**
+	 * Retrieves the database of an entity, opening it if it is not loaded.
+	 * @param entity The entity.
+	 * @returns The database.
+	 */
+	get(entity: Entity): D {
+		let loaded = this.databases.get(entity.id);
+		if (!loaded) {
+			loaded = { entity, database: this.create(entity) };
+			this.databases.set(entity.id, loaded);
+			this.start();
+		}
+		return loaded.database;
+	}
+
+	/**
+	 * Retrieves the database of an entity only if it is loaded.
+	 * @param entityId The entity id.
+	 * @returns The database, or undefined if it is not loaded.
+	 */
+	peek(entityId: string): D | undefined {
+		return this.databases.get(entityId)?.database;
+	}
+
+	/**
+	 * Checks if the database of an entity is loaded.
+	 * @param entityId The entity id.
+	 * @returns True if the database is loaded.
+	 */
+	has(entityId: string): boolean {
+		return this.databases.has(entityId);
+	}
+
+	/**
+	 * The number of loaded databases.
+	 */
+	get size(): number {
+		return this.databases.size;
+	}
+
+	/**
+	 * Closes the database of an entity, saving it if the entity can still be written.
+	 * With `compactEmpty`, an empty database has its stored data deleted instead.
+	 * @param entityId The entity id.
+	 */
+	unload(entityId: string): void {
+		const loaded = this.databases.get(entityId);
+		if (!loaded) return;
+		this.databases.delete(entityId);
+
+		const { entity, database } = loaded;
+		if (this.options.compactEmpty && entity.isValid && database.getAllObjects().length === 0) {
+			database.deleteStoredData();
+		} else {
+			database.close();
+		}
+		if (this.databases.size === 0) {
+			this.stop();
+		}
+	}
+
+	/**
+	 * Deletes the stored data of an entity and unloads its database.
+	 * @param entity The entity.
+	 */
+	wipe(entity: Entity): void {
+		this.get(entity).deleteStoredData();
+		this.databases.delete(entity.id);
+		if (this.databases.size === 0) {
+			this.stop();
+		}
+	}
+
+	/**
+	 * Unloads every database.
+	 */
+	unloadAll(): void {
+		Array.from(this.databases.keys()).forEach((entityId) => this.unload(entityId));
+	}
+
+	private start() {
+		const environment = getDatabaseEnvironment();
+		if (!this.subscribed) {
+			this.subscribed = true;
+			// The removal event is read-only, so the database is saved on the next tick
+			environment.onEntityRemove((entity) => environment.run(() => this.unload(entity.id)));
+			environment.onEntityDie((entity) => {
+				if (this.options.wipeOnDeath && this.has(entity.id)) {
+					this.wipe(entity);
+				}
+			});
+		}
+		if (this.sweepJob === undefined) {
+			this.sweepJob = environment.runInterval(() => this.sweep(), this.options.sweepInterval ?? EntityDatabaseRegistry.SWEEP_INTERVAL);
+		}
+	}
+
+	private stop() {
+		if (this.sweepJob !== undefined) {
+			getDatabaseEnvironment().clearRun(this.sweepJob);
+			this.sweepJob = undefined;
+		}
+	}
+
+	/**
+	 * Unloads the databases of invalid entities, and empty databases with `compactEmpty`.
+	 */
+	private sweep() {
+		for (const [entityId, { entity, database }] of Array.from(this.databases)) {
+			if (!entity.isValid || (this.options.compactEmpty && database.getAllObjects().length === 0)) {
+				this.unload(entityId);
+			}
+		}
+	}
+}
@@ -0,0 +1,271 @@
+/**
+ * A problem found while validating a value, located by its path such as `color.red` or `levels[2]`.
+ */
+export interface SchemaIssue {
+	path: string;
+	message: string;
+}
+
+type Checker = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+/**
+ * Schema describes the expected shape of a stored value. Build schemas with the `schema` helpers.
+ */
+export class Schema<V> {
+	private readonly checker: Checker;
+	readonly isOptional: boolean;
+
+	/** Only used for type inference, never set. */
+	declare readonly type: V;
+
+	constructor(checker: Checker, isOptional: boolean = false) {
+		this.checker = checker;
+		this.isOptional = isOptional;
+	}
+
+	/**
+	 * Allows the value to be undefined.
+	 * @returns A schema that also accepts undefined.
+	 */
+	optional(): Schema<V | undefined> {
+		return new Schema<V | undefined>(this.checker, true);
+	}
+
+	/**
+	 * Checks a value and collects every issue found, without stopping at the first one.
+	 * @param value The value to check.
+	 * @param path The path of the value, used as a prefix in the issues.
+	 * @param issues The list the issues are added to.
+	 */
+	check(value: unknown, path: string, issues: SchemaIssue[]) {
+		if (value === undefined) {
+			if (!this.isOptional) {
+				issues.push({ path, message: "is required" });
+			}
+			return;
+		}
+		this.checker(value, path, issues);
+	}
+
+	/**
+	 * Validates a value.
+	 * @param value The value to validate.
+	 * @returns The issues found, empty if the value is valid.
+	 */
+	validate(value: unknown): SchemaIssue[] {
+		const issues: SchemaIssue[] = [];
+		this.check(value, "", issues);
+		return issues;
+	}
+}
+
+/**
+ * The type of the values accepted by a schema.
+ */
+export type Infer<S extends Schema<unknown>> = S["type"];
+
+type Shape = Record<string, Schema<unknown>>;
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+function describe(value: unknown) {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "an array";
+	return `a ${typeof value}`;
+}
+
+function childPath(path: string, key: string | number) {
+	if (typeof key === "number") return `${path}[${key}]`;
+	return path ? `${path}.${key}` : key;
+}
+
+interface PrimitiveTypes {
+	string: string;
+	number: number;
+	boolean: boolean;
+}
+
+function typeChecker<K extends keyof PrimitiveTypes>(
+	type: K,
+	then?: (value: PrimitiveTypes[K], path: string, issues: SchemaIssue[]) => void
+): Checker {
+	return (value, path, issues) => {
+		if (typeof value !== type) {
+			issues.push({ path, message: `must be a ${type}, got ${describe(value)}` });
+		} else if (then) {
+			// typeof just matched the name of the type
+			then(value as PrimitiveTypes[K], path, issues);
+		}
+	};
+}
+
+/**
+ * Helpers for building schemas.
+ *
+ * @example
+ * const branchSchema = schema.object({
+ * 	id: schema.string(),
+ * 	activeLevel: schema.string().optional(),
+ * 	levelState: schema.enum(levelState),
+ * 	levelTick: schema.number({ integer: true, min: 0 }),
+ * 	stateTick: schema.number({ integer: true, min: 0 }),
+ * });
+ */
+export const schema = {
+	any(): Schema<unknown> {
+		return new Schema(() => {});
+	},
+
+	string(options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Schema<string> {
+		return new Schema(
+			typeChecker("string", (value: string, path, issues) => {
+				if (options.minLength !== undefined && value.length < options.minLength) {
+					issues.push({ path, message: `must be at least ${options.minLength} characters long` });
+				}
+				if (options.maxLength !== undefined && value.length > options.maxLength) {
+					issues.push({ path, message: `must be at most ${options.maxLength} characters long` });
+				}
+				if (options.pattern && !options.pattern.test(value)) {
+					issues.push({ path, message: `must match ${options.pattern}` });
+				}
+			})
+		);
+	},
+
+	number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+		return new Schema(
+			typeChecker("number", (value: number, path, issues) => {
+				if (Number.isNaN(value)) {
+					issues.push({ path, message: "must not be NaN" });
+				}
+				if (options.integer && !Number.isInteger(value)) {
+					issues.push({ path, message: `must be an integer, got ${value}` });
+				}
+				if (options.min !== undefined && value < options.min) {
+					issues.push({ path, message: `must be at least ${options.min}, got ${value}` });
+				}
+				if (options.max !== undefined && value > options.max) {
+					issues.push({ path, message: `must be at most ${options.max}, got ${value}` });
+				}
+			})
+		);
+	},
+
+	boolean(): Schema<boolean> {
+		return new Schema(typeChecker("boolean"));
+	},
+
+	/**
+	 * Accepts exactly one of the given values.
+	 */
+	literal<L extends string | number | boolean | null>(...values: L[]): Schema<L> {
+		return new Schema((value, path, issues) => {
+			if (!values.includes(value as L)) {
+				issues.push({ path, message: `must be one of ${values.map((entry) => JSON.stringify(entry)).join(", ")}` });
+			}
+		});
+	},
+
+	/**
+	 * Accepts the values of a TypeScript string enum.
+	 */
+	enum<E extends Record<string, string | number>>(enumObject: E): Schema<E[keyof E]> {
+		return schema.literal(...Object.values(enumObject)) as Schema<E[keyof E]>;
+	},
+
+	array<I>(item: Schema<I>, options: { maxLength?: number } = {}): Schema<I[]> {
+		return new Schema((value, path, issues) => {
+			if (!Array.isArray(value)) {
+				issues.push({ path, message: `must be an array, got ${describe(value)}` });
+				return;
+			}
+			if (options.maxLength !== undefined && value.length > options.maxLength) {
+				issues.push({ path, message: `must have at most ${options.maxLength} entries` });
+			}
+			value.forEach((entry, index) => item.check(entry, childPath(path, index), issues));
+		});
+	},
+
+	/**
+	 * Accepts an object with the given fields. Unknown fields are allowed unless `strict` is set.
+	 */
+	object<S extends Shape>(shape: S, options: { strict?: boolean } = {}): Schema<InferShape<S>> {
+		return new Schema((value, path, issues) => {
+			if (value === null || typeof value !== "object" || Array.isArray(value)) {
+				issues.push({ path, message: `must be an object, got ${describe(value)}` });
+				return;
+			}
+			const object = value as Record<string, unknown>;
+			for (const [key, fieldSchema] of Object.entries(shape)) {
+				fieldSchema.check(object[key], childPath(path, key), issues);
+			}
+			if (options.strict) {
+				for (const key of Object.keys(object)) {
+					if (!(key in shape)) {
+						issues.push({ path: childPath(path, key), message: "is not allowed" });
+					}
+				}
+			}
+		});
+	},
+
+	/**
+	 * Accepts an object used as a dictionary, whose values all match a schema.
+	 */
+	record<I>(value: Schema<I>): Schema<Record<string, I>> {
+		return new Schema((object, path, issues) => {
+			if (object === null || typeof object !== "object" || Array.isArray(object)) {
+				issues.push({ path, message: `must be an object, got ${describe(object)}` });
+				return;
+			}
+			for (const [key, entry] of Object.entries(object)) {
+				value.check(entry, childPath(path, key), issues);
+			}
+		});
+	},
+
+	/**
+	 * Accepts a value matching any of the schemas.
+	 */
+	union<S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> {
+		return new Schema((value, path, issues) => {
+			const options = schemas.map((option) => option.validate(value));
+			if (options.every((optionIssues) => optionIssues.length > 0)) {
+				const messages = options.map((optionIssues) => optionIssues.map((issue) => issue.message).join(", "));
+				issues.push({ path, message: `must match one of: ${messages.join(" | ")}` });
+			}
+		});
+	},
+
+	/**
+	 * Accepts a value for which the predicate returns true.
+	 */
+	custom<V>(predicate: (value: unknown) => boolean, message: string): Schema<V> {
+		return new Schema((value, path, issues) => {
+			if (!predicate(value)) {
+				issues.push({ path, message });
+			}
+		});
+	},
+};
+
+/**
+ * SchemaValidationError is thrown for invalid records when the validation policy is "throw".
+ */
+export class SchemaValidationError extends Error {
+	readonly issues: SchemaIssue[];
+
+	constructor(databaseName: string, id: unknown, issues: SchemaIssue[]) {
+		super(`Invalid record ${String(id)} in ${databaseName}: ${formatIssues(issues)}`);
+		this.name = "SchemaValidationError";
+		this.issues = issues;
+	}
+}
+
+/**
+ * Formats issues into a single readable line.
+ * @param issues The issues to format.
+ * @returns The formatted issues.
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+	return issues.map((issue) => `${issue.path || "record"} ${issue.message}`).join("; ");
+}
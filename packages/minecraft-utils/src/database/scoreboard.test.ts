@@ -0,0 +1,160 @@
+import type { Entity } from "@minecraft/server";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SimpleDatabase } from "./database";
+import { setDatabaseEnvironment } from "./environment";
+import { SimpleObject } from "./interfaces";
+import { MemoryEnvironment } from "./memory";
+import { ScoreboardStore } from "./scoreboard";
+import { MemoryStorageAdapter } from "./storage";
+
+interface Account extends SimpleObject {
+	coins: number;
+	name?: string;
+}
+
+class AccountDatabase extends SimpleDatabase<Account> {
+	constructor() {
+		super("accounts", new MemoryStorageAdapter());
+	}
+}
+
+let environment: MemoryEnvironment;
+let opened: SimpleDatabase<SimpleObject>[];
+
+function createEntity(id: string): Entity {
+	return { id, isValid: true } as unknown as Entity;
+}
+
+function openAccounts(): AccountDatabase {
+	const database = new AccountDatabase();
+	opened.push(database);
+	return database;
+}
+
+beforeEach(() => {
+	environment = new MemoryEnvironment();
+	setDatabaseEnvironment(environment);
+	opened = [];
+});
+
+afterEach(() => {
+	opened.forEach((database) => database.close());
+});
+
+describe("ScoreboardStore", () => {
+	it("keeps each field in its own objective", () => {
+		const economy = new ScoreboardStore("economy", ["coins", "kills"], { objectives: { kills: "pvp_kills" } });
+		economy.set("steve", "coins", 10);
+		economy.set("steve", "kills", 2);
+
+		expect(environment.getObjective("economy_coins", "coins").getScore("steve")).toBe(10);
+		expect(environment.getObjective("pvp_kills", "kills").getScore("steve")).toBe(2);
+		expect(economy.getRecord("steve")).toEqual({ coins: 10, kills: 2 });
+		expect(economy.getRecord("alex")).toEqual({});
+	});
+
+	it("adds to missing scores from 0 and rejects scores that are not 32-bit integers", () => {
+		const economy = new ScoreboardStore("economy", ["coins"]);
+
+		expect(economy.add("steve", "coins", 5)).toBe(5);
+		expect(economy.add("steve", "coins", -2)).toBe(3);
+		expect(() => economy.set("steve", "coins", 1.5)).toThrow();
+		expect(() => economy.add("steve", "coins", 2 ** 31)).toThrow();
+		expect(economy.get("steve", "coins")).toBe(3);
+	});
+
+	it("sets a score only if it has the expected value", () => {
+		const economy = new ScoreboardStore("economy", ["coins"]);
+
+		expect(economy.compareAndSet("steve", "coins", undefined, 100)).toBe(true);
+		expect(economy.compareAndSet("steve", "coins", 50, 0)).toBe(false);
+		expect(economy.compareAndSet("steve", "coins", 100, 0)).toBe(true);
+		expect(economy.get("steve", "coins")).toBe(0);
+	});
+
+	it("only reads and writes the scores of loaded entities", () => {
+		const economy = new ScoreboardStore("economy", ["coins"], { participants: "entity" });
+		const entity = createEntity("-1");
+
+		expect(() => economy.set("-1", "coins", 10)).toThrow();
+		environment.loadEntity(entity);
+		economy.set("-1", "coins", 10);
+
+		expect(environment.getObjective("economy_coins", "coins").getScore(entity)).toBe(10);
+		expect(environment.getObjective("economy_coins", "coins").hasParticipant("-1")).toBe(false);
+		environment.removeEntity(entity);
+		expect(economy.get("-1", "coins")).toBeUndefined();
+	});
+
+	it("removes every score of a record", () => {
+		const economy = new ScoreboardStore("economy", ["coins", "kills"]);
+		economy.set("steve", "coins", 10);
+		economy.set("steve", "kills", 2);
+		economy.remove("steve");
+
+		expect(economy.getRecord("steve")).toEqual({});
+	});
+});
+
+describe("ScoreboardStore sync", () => {
+	it("writes record changes to the scoreboard and removes the scores of removed records", () => {
+		const economy = new ScoreboardStore("economy", ["coins"]);
+		const accounts = openAccounts();
+		economy.sync(accounts);
+
+		// Changes are delivered once per tick
+		accounts.addObject({ id: "steve", coins: 10, name: "Steve" });
+		environment.tick();
+		expect(economy.get("steve", "coins")).toBe(10);
+		accounts.updateObject({ id: "steve", coins: 25, name: "Steve" });
+		environment.tick();
+		expect(economy.get("steve", "coins")).toBe(25);
+		accounts.removeObject("steve");
+		environment.tick();
+		expect(economy.get("steve", "coins")).toBeUndefined();
+	});
+
+	it("polls scores changed by commands back into the records", () => {
+		const economy = new ScoreboardStore("economy", ["coins"]);
+		const accounts = openAccounts();
+		accounts.addObject({ id: "steve", coins: 10 });
+		economy.sync(accounts, 5);
+
+		environment.getObjective("economy_coins", "coins").setScore("steve", 40);
+		environment.tick(4);
+		expect(accounts.getObject("steve")?.coins).toBe(10);
+		environment.tick();
+		expect(accounts.getObject("steve")?.coins).toBe(40);
+	});
+
+	it("keeps the scores when syncing starts and the records when both sides changed", () => {
+		const economy = new ScoreboardStore("economy", ["coins"]);
+		const accounts = openAccounts();
+		accounts.addObject({ id: "steve", coins: 10 });
+		economy.set("steve", "coins", 30);
+		economy.sync(accounts, 5);
+		expect(accounts.getObject("steve")?.coins).toBe(30);
+
+		environment.getObjective("economy_coins", "coins").setScore("steve", 40);
+		accounts.updateObject({ id: "steve", coins: 50 });
+		environment.tick(5);
+
+		expect(accounts.getObject("steve")?.coins).toBe(50);
+		expect(economy.get("steve", "coins")).toBe(50);
+	});
+
+	it("stops syncing when the returned function is called", () => {
+		const economy = new ScoreboardStore("economy", ["coins"]);
+		const accounts = openAccounts();
+		accounts.addObject({ id: "steve", coins: 10 });
+		const stop = economy.sync(accounts, 5);
+		stop();
+
+		accounts.updateObject({ id: "steve", coins: 20 });
+		environment.getObjective("economy_coins", "coins").setScore("steve", 40);
+		environment.tick(10);
+
+		expect(accounts.getObject("steve")?.coins).toBe(20);
+		expect(economy.get("steve", "coins")).toBe(40);
+	});
+});
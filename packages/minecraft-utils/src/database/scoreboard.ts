@@ -0,0 +1,238 @@
+import type { Entity } from "@minecraft/server";
+import { SimpleDatabase } from "./database";
+import { getDatabaseEnvironment, ObjectiveAdapter } from "./environment";
+import { SimpleObject } from "./interfaces";
+
+/**
+ * How record ids are mapped to scoreboard participants.
+ * - `name`: the id is the name of a fake player, which works for any id but shows the id in displays.
+ * - `entity`: the id is an entity id, so displays show the entity. Scores can only be read and written while the entity is loaded.
+ */
+export type ScoreboardParticipantMode = "name" | "entity";
+
+/**
+ * Options for a ScoreboardStore.
+ */
+export interface ScoreboardStoreOptions<F extends string> {
+	/** How record ids are mapped to participants, "name" by default. */
+	participants?: ScoreboardParticipantMode;
+	/** The objective id of each field, `<store name>_<field>` by default. */
+	objectives?: Partial<Record<F, string>>;
+	/** The display name of each objective, the field name by default. */
+	displayNames?: Partial<Record<F, string>>;
+}
+
+/**
+ * ScoreboardStore keeps numeric fields in scoreboard objectives, one objective per field and one participant per record,
+ * so commands and vanilla scoreboard displays can use them.
+ * Scores are 32-bit integers.
+ *
+ * Every method runs synchronously, so no command or other script can change a score between the read and the write of
+ * `add` or `compareAndSet`.
+ *
+ * @example
+ * const economy = new ScoreboardStore("economy", ["coins", "kills"], { participants: "entity" });
+ * economy.add(player.id, "coins", 10);
+ * if (economy.compareAndSet(player.id, "coins", 100, 0)) {
+ * 	player.sendMessage("Bought a sword for 100 coins");
+ * }
+ *
+ * // Keep the coins of the player database in sync with the scoreboard
+ * const stopSync = economy.sync(playerDatabase);
+ */
+export class ScoreboardStore<F extends string> {
+	private static readonly MIN_SCORE = -2147483648;
+	private static readonly MAX_SCORE = 2147483647;
+	private static readonly SYNC_INTERVAL = 20;
+
+	readonly name: string;
+	readonly fields: F[];
+	private participants: ScoreboardParticipantMode;
+	private objectiveIds: Record<F, string>;
+	private displayNames: Record<F, string>;
+
+	/**
+	 * @param name The name of the store, used as the prefix of the objective ids.
+	 * @param fields The numeric fields, each stored in its own objective.
+	 * @param options Additional options such as the participant mode.
+	 */
+	constructor(name: string, fields: F[], options: ScoreboardStoreOptions<F> = {}) {
+		this.name = name;
+		this.fields = fields;
+		this.participants = options.participants ?? "name";
+		this.objectiveIds = {} as Record<F, string>;
+		this.displayNames = {} as Record<F, string>;
+		for (const field of fields) {
+			this.objectiveIds[field] = options.objectives?.[field] ?? `${name}_${field}`;
+			this.displayNames[field] = options.displayNames?.[field] ?? field;
+		}
+	}
+
+	/**
+	 * Retrieves the objective of a field, creating it if needed.
+	 * @param field The field.
+	 * @returns The objective, a ScoreboardObjective in game.
+	 */
+	getObjective(field: F): ObjectiveAdapter {
+		const id = this.objectiveIds[field];
+		if (id === undefined) {
+			throw new Error(`Field ${field} is not part of the ${this.name} store`);
+		}
+		return getDatabaseEnvironment().getObjective(id, this.displayNames[field]);
+	}
+
+	private getParticipant(id: string): Entity | string | undefined {
+		return this.participants === "entity" ? getDatabaseEnvironment().getEntity(id) : id;
+	}
+
+	private requireParticipant(id: string): Entity | string {
+		const participant = this.getParticipant(id);
+		if (participant === undefined) {
+			throw new Error(`Entity ${id} is not loaded`);
+		}
+		return participant;
+	}
+
+	private checkScore(field: F, value: number) {
+		if (!Number.isInteger(value) || value < ScoreboardStore.MIN_SCORE || value > ScoreboardStore.MAX_SCORE) {
+			throw new Error(`${field} must be a 32-bit integer, got ${value}`);
+		}
+	}
+
+	/**
+	 * Retrieves the score of a record.
+	 * @param id The record id.
+	 * @param field The field.
+	 * @returns The score, or undefined if the record has no score or its entity is not loaded.
+	 */
+	get(id: string, field: F): number | undefined {
+		const participant = this.getParticipant(id);
+		if (participant === undefined) return undefined;
+		const objective = this.getObjective(field);
+		return objective.hasParticipant(participant) ? objective.getScore(participant) : undefined;
+	}
+
+	/**
+	 * Retrieves every score of a record.
+	 * @param id The record id.
+	 * @returns The scores by field. Fields without a score are left out.
+	 */
+	getRecord(id: string): Partial<Record<F, number>> {
+		const record: Partial<Record<F, number>> = {};
+		for (const field of this.fields) {
+			const score = this.get(id, field);
+			if (score !== undefined) {
+				record[field] = score;
+			}
+		}
+		return record;
+	}
+
+	/**
+	 * Sets the score of a record.
+	 * @param id The record id.
+	 * @param field The field.
+	 * @param value The score.
+	 * @throws An error if the value is not a 32-bit integer or the entity is not loaded.
+	 */
+	set(id: string, field: F, value: number): void {
+		this.checkScore(field, value);
+		this.getObjective(field).setScore(this.requireParticipant(id), value);
+	}
+
+	/**
+	 * Adds to the score of a record. A record without a score starts at 0.
+	 * @param id The record id.
+	 * @param field The field.
+	 * @param delta The amount to add, negative to subtract.
+	 * @returns The new score.
+	 * @throws An error if the delta is not a 32-bit integer or the entity is not loaded.
+	 */
+	add(id: string, field: F, delta: number): number {
+		this.checkScore(field, delta);
+		return this.getObjective(field).addScore(this.requireParticipant(id), delta);
+	}
+
+	/**
+	 * Sets the score of a record only if it currently equals the expected value.
+	 * @param id The record id.
+	 * @param field The field.
+	 * @param expected The expected score, or undefined if the record is expected to have no score.
+	 * @param next The new score.
+	 * @returns True if the score was set.
+	 * @throws An error if the new score is not a 32-bit integer or the entity is not loaded.
+	 */
+	compareAndSet(id: string, field: F, expected: number | undefined, next: number): boolean {
+		if (this.get(id, field) !== expected) return false;
+		this.set(id, field, next);
+		return true;
+	}
+
+	/**
+	 * Removes every score of a record.
+	 * @param id The record id.
+	 */
+	remove(id: string): void {
+		const participant = this.getParticipant(id);
+		if (participant === undefined) return;
+		for (const field of this.fields) {
+			this.getObjective(field).removeParticipant(participant);
+		}
+	}
+
+	/**
+	 * Keeps the fields of a database in sync with the scoreboard, in both directions.
+	 * Records are matched by id and only numeric fields named after the store fields are synced.
+	 *
+	 * Record changes are written to the scoreboard when the database reports them, and scoreboard changes made by
+	 * commands are written back to the records by polling. If both sides of a field changed between two polls, the record wins.
+	 * When syncing starts, existing scores win over the records, since they may have changed while the records could not follow.
+	 * @param database The database to sync.
+	 * @param interval The number of ticks between two polls of the scoreboard.
+	 * @returns A function that stops syncing.
+	 */
+	sync<T extends SimpleObject>(database: SimpleDatabase<T>, interval: number = ScoreboardStore.SYNC_INTERVAL): () => void {
+		// The last value both sides agreed on, by record id and field
+		const synced = new Map<string, number>();
+		const key = (id: string, field: F) => `${id}|${field}`;
+
+		const reconcile = (record: T, recordWins: boolean) => {
+			const changes: Record<string, number> = {};
+			for (const field of this.fields) {
+				const value = (record as Record<string, unknown>)[field];
+				const score = this.get(record.id, field);
+				const last = synced.get(key(record.id, field));
+
+				if (typeof value === "number" && value !== last && (recordWins || score === undefined || score === last)) {
+					if (this.getParticipant(record.id) === undefined) continue;
+					this.set(record.id, field, value);
+					synced.set(key(record.id, field), value);
+				} else if (score !== undefined && score !== last) {
+					synced.set(key(record.id, field), score);
+					if (score !== value) changes[field] = score;
+				}
+			}
+			if (Object.keys(changes).length > 0) {
+				database.updateObject({ ...record, ...changes });
+			}
+		};
+
+		database.getAllObjects().forEach((record) => reconcile(record, false));
+
+		const unsubscribes = [
+			database.onAdded((record) => reconcile(record, true)),
+			database.onUpdated((_, next) => reconcile(next, true)),
+			database.onRemoved((record) => {
+				this.remove(record.id);
+				this.fields.forEach((field) => synced.delete(key(record.id, field)));
+			}),
+		];
+		const environment = getDatabaseEnvironment();
+		const job = environment.runInterval(() => database.getAllObjects().forEach((record) => reconcile(record, true)), interval);
+
+		return () => {
+			unsubscribes.forEach((unsubscribe) => unsubscribe());
+			environment.clearRun(job);
+		};
+	}
+}
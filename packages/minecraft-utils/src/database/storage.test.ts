@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DatabaseManager } from "./database";
+import { setDatabaseEnvironment } from "./environment";
+import { MemoryEnvironment } from "./memory";
+import { createStorageAdapter, ItemStorageAdapter, MemoryStorageAdapter } from "./storage";
+import { BlockLocationTarget } from "./targets";
+
+let environment: MemoryEnvironment;
+
+beforeEach(() => {
+	environment = new MemoryEnvironment();
+	setDatabaseEnvironment(environment);
+});
+
+describe("MemoryStorageAdapter", () => {
+	it("rejects values longer than the limit", () => {
+		const storage = new MemoryStorageAdapter({ maxValueLength: 10 });
+		expect(() => storage.setProperty("key", "x".repeat(11))).toThrow();
+		expect(storage.getProperty("key")).toBeUndefined();
+	});
+
+	it("rejects writes that grow the store past its limit", () => {
+		const storage = new MemoryStorageAdapter({ maxTotalBytes: 20 });
+		storage.setProperty("a", "x".repeat(10));
+		expect(() => storage.setProperty("b", "x".repeat(10))).toThrow();
+		storage.setProperty("a", "x".repeat(5));
+		expect(storage.getTotalByteCount()).toBeLessThanOrEqual(20);
+	});
+
+	it("fails the requested number of writes", () => {
+		const storage = new MemoryStorageAdapter();
+		storage.failWrites(1);
+		expect(() => storage.setProperty("a", 1)).toThrow();
+		storage.setProperty("a", 1);
+		expect(storage.getProperty("a")).toBe(1);
+	});
+});
+
+describe("BlockLocationTarget", () => {
+	it("keeps block data in world properties without listing it as world databases", () => {
+		const block = new DatabaseManager(new BlockLocationTarget("minecraft:overworld", { x: 10.5, y: 64, z: -3.2 }));
+		block.addJSONDatabase("test:machine", { fuel: 64 });
+		new DatabaseManager(undefined).addJSONDatabase("test:world", { day: 1 });
+
+		expect(environment.world.getProperty("starktma:block|minecraft:overworld|10,64,-4|test:machine")).toBeTypeOf("string");
+		expect(block.targetId).toBe("starktma:block|minecraft:overworld|10,64,-4");
+		expect(block.listJSONDatabases()).toEqual(["test:machine"]);
+		expect(new DatabaseManager(undefined).listJSONDatabases()).toEqual(["test:world"]);
+	});
+
+	it("clears the data of a block stored before a reload when it is broken", () => {
+		environment.world.setProperty("starktma:block|minecraft:overworld|0,0,0|test:machine", "{}");
+		new DatabaseManager(undefined);
+		environment.breakBlock("minecraft:overworld", { x: 0, y: 0, z: 0 });
+
+		expect(environment.world.getPropertyIds()).toEqual([]);
+	});
+
+	it("clears the data of a broken block", () => {
+		const target = new BlockLocationTarget("minecraft:overworld", { x: 0, y: 0, z: 0 });
+		new DatabaseManager(target).addJSONDatabase("test:machine", { fuel: 64 });
+		environment.breakBlock("minecraft:overworld", { x: 0, y: 0, z: 0 });
+
+		expect(target.getDynamicPropertyIds()).toEqual([]);
+		expect(environment.world.getPropertyIds()).toEqual([]);
+	});
+
+	it("sweeps the data of blocks replaced without an event", () => {
+		environment.setBlock("minecraft:overworld", { x: 0, y: 0, z: 0 }, "test:machine");
+		environment.setBlock("minecraft:overworld", { x: 1, y: 0, z: 0 }, "test:machine");
+		const replaced = new BlockLocationTarget("minecraft:overworld", { x: 0, y: 0, z: 0 });
+		const kept = new BlockLocationTarget("minecraft:overworld", { x: 1, y: 0, z: 0 });
+		const unloaded = new BlockLocationTarget("minecraft:overworld", { x: 2, y: 0, z: 0 });
+		[replaced, kept, unloaded].forEach((target) => new DatabaseManager(target).addJSONDatabase("test:machine", { fuel: 64 }));
+
+		environment.setBlock("minecraft:overworld", { x: 0, y: 0, z: 0 }, "minecraft:stone");
+		expect(replaced.typeId).toBe("test:machine");
+		expect(BlockLocationTarget.sweep(true).map((target) => target.key)).toEqual([replaced.key]);
+		expect(replaced.getDynamicPropertyIds()).toEqual(["test:machine"]);
+
+		BlockLocationTarget.sweep();
+		expect(replaced.getDynamicPropertyIds()).toEqual([]);
+		expect(kept.getDynamicPropertyIds()).toEqual(["test:machine"]);
+		expect(unloaded.getDynamicPropertyIds()).toEqual(["test:machine"]);
+
+		environment.setBlock("minecraft:overworld", { x: 2, y: 0, z: 0 }, "minecraft:air");
+		expect(BlockLocationTarget.sweep().map((target) => target.key)).toEqual([unloaded.key]);
+	});
+});
+
+describe("createStorageAdapter", () => {
+	it("creates one store per entity from the environment", () => {
+		const entity = { id: "-1", isValid: true };
+		const storage = createStorageAdapter(entity as never);
+		storage.setProperty("a", 1);
+
+		expect(storage.id).toBe("-1");
+		expect(createStorageAdapter(entity as never).getProperty("a")).toBe(1);
+		entity.isValid = false;
+		expect(storage.isValid?.()).toBe(false);
+	});
+
+	it("tells items of the same type apart by an id stored on them", () => {
+		const first = createStorageAdapter({ typeId: "test:wand", isStackable: false } as never);
+		const second = createStorageAdapter({ typeId: "test:wand", isStackable: false } as never);
+		expect(first.id).toBe("item");
+		expect(first.getTotalByteCount()).toBe(0);
+		first.setProperty("test:charges", 3);
+		second.setProperty("test:charges", 5);
+
+		expect(first.id).toMatch(/^item\|/);
+		expect(first.id).not.toBe(second.id);
+		expect(first.id).toBe(first.id);
+		expect(first.getPropertyIds()).toEqual(["test:charges"]);
+	});
+
+	it("holds items to their own limits", () => {
+		const storage = createStorageAdapter({ typeId: "test:wand", isStackable: false } as never);
+		expect(storage.maxValueLength).toBe(ItemStorageAdapter.MAX_VALUE_LENGTH);
+		expect(() => storage.setProperty("test:a", "x".repeat(ItemStorageAdapter.MAX_VALUE_LENGTH + 1))).toThrow();
+
+		for (let i = 0; i < 3; i++) {
+			storage.setProperty(`test:${i}`, "x".repeat(ItemStorageAdapter.MAX_VALUE_LENGTH));
+		}
+		expect(() => storage.setProperty("test:3", "x".repeat(ItemStorageAdapter.MAX_VALUE_LENGTH))).toThrow();
+		expect(storage.getProperty("test:3")).toBeUndefined();
+		expect(storage.getTotalByteCount()).toBeLessThanOrEqual(ItemStorageAdapter.MAX_TOTAL_BYTES);
+	});
+
+	it("refuses stackable items", () => {
+		expect(() => createStorageAdapter({ typeId: "minecraft:dirt", isStackable: true } as never)).toThrow();
+	});
+});
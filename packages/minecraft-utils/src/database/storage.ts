@@ -0,0 +1,334 @@
+import type { Entity, ItemStack, Vector3 } from "@minecraft/server";
+import { getNamespace } from "../constants";
+import { getDatabaseEnvironment } from "./environment";
+import { StorageTarget } from "./interfaces";
+import { BlockLocationTarget } from "./targets";
+import { getPropertyByteCount } from "./utils";
+
+export type PropertyValue = boolean | number | string | Vector3;
+
+/**
+ * A StorageAdapter is the key-value store a DatabaseManager reads and writes its properties through.
+ * Values longer than `maxValueLength` are never written, databases are split into chunks instead.
+ */
+export interface StorageAdapter {
+	/** Identifies the store, such as an entity id or "world". Databases are looked up by it in the open-database registry. */
+	readonly id: string;
+	/** The longest string a single property can hold. */
+	readonly maxValueLength: number;
+	getProperty(key: string): PropertyValue | undefined;
+	/** Sets a property, or removes it if the value is undefined. May throw if the store rejects the write. */
+	setProperty(key: string, value: PropertyValue | undefined): void;
+	getPropertyIds(): string[];
+	/** The size of every property in the store, in bytes. */
+	getTotalByteCount(): number;
+	/** Returns false once the store can no longer be read or written, such as a removed entity. Stores without it are always valid. */
+	isValid?(): boolean;
+}
+
+/**
+ * Options for simulating the limits of a real store with a MemoryStorageAdapter.
+ */
+export interface MemoryStorageOptions {
+	/** The id of the store, "memory" by default. */
+	id?: string;
+	/** The longest string a property can hold, 32767 by default like dynamic properties. */
+	maxValueLength?: number;
+	/** Writes that would grow the store past this many bytes throw. Unlimited by default. */
+	maxTotalBytes?: number;
+	/** Reports whether the store can still be used, such as whether a simulated entity was removed. Always valid by default. */
+	isValid?: () => boolean;
+}
+
+/**
+ * MemoryStorageAdapter keeps properties in a Map, so databases can run without a world, such as in the tests under Node.
+ * It enforces the same limits as dynamic properties and can simulate smaller limits and failing writes.
+ *
+ * @example
+ * const storage = new MemoryStorageAdapter({ maxValueLength: 100 });
+ * const manager = new DatabaseManager(storage);
+ * manager.addJSONDatabase("test:big", { text: "x".repeat(250) }); // stored in 3 chunks
+ *
+ * storage.failWrites(1);
+ * manager.addJSONDatabase("test:big", { text: "y" }); // throws, the previous value is still readable
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+	readonly id: string;
+	readonly maxValueLength: number;
+	private readonly maxTotalBytes: number;
+	private readonly validity: (() => boolean) | undefined;
+	private properties: Map<string, PropertyValue> = new Map();
+	private failures: ((key: string) => boolean)[] = [];
+
+	constructor(options: MemoryStorageOptions = {}) {
+		this.id = options.id ?? "memory";
+		this.maxValueLength = options.maxValueLength ?? 32767;
+		this.maxTotalBytes = options.maxTotalBytes ?? Infinity;
+		this.validity = options.isValid;
+	}
+
+	isValid(): boolean {
+		return this.validity?.() ?? true;
+	}
+
+	getProperty(key: string) {
+		return this.properties.get(key);
+	}
+
+	setProperty(key: string, value: PropertyValue | undefined) {
+		const failure = this.failures.findIndex((fails) => fails(key));
+		if (failure > -1) {
+			this.failures.splice(failure, 1);
+			throw new Error(`Simulated write failure for ${key}`);
+		}
+		if (value === undefined) {
+			this.properties.delete(key);
+			return;
+		}
+		if (typeof value === "string" && value.length > this.maxValueLength) {
+			throw new Error(`Value of ${key} is ${value.length} characters long, the limit is ${this.maxValueLength}`);
+		}
+		const previous = this.properties.get(key);
+		const growth = getPropertyByteCount(key, value) - (previous === undefined ? 0 : getPropertyByteCount(key, previous));
+		if (this.getTotalByteCount() + growth > this.maxTotalBytes) {
+			throw new Error(`Writing ${key} exceeds the storage limit of ${this.maxTotalBytes} bytes`);
+		}
+		this.properties.set(key, value);
+	}
+
+	getPropertyIds(): string[] {
+		return Array.from(this.properties.keys());
+	}
+
+	getTotalByteCount(): number {
+		let bytes = 0;
+		this.properties.forEach((value, key) => (bytes += getPropertyByteCount(key, value)));
+		return bytes;
+	}
+
+	/**
+	 * Makes the next writes throw. Removing a property counts as a write.
+	 * @param count The number of writes to fail.
+	 * @param filter Only writes to keys matching the filter fail, such as the chunks of one database.
+	 */
+	failWrites(count: number, filter: (key: string) => boolean = () => true) {
+		for (let i = 0; i < count; i++) {
+			this.failures.push(filter);
+		}
+	}
+
+	/**
+	 * Removes every property and pending failure.
+	 */
+	clear() {
+		this.properties.clear();
+		this.failures = [];
+	}
+}
+
+/**
+ * WorldStorageAdapter is the world as seen by the databases stored on it.
+ * Block location data is kept in world properties but belongs to the block, so it is not listed.
+ */
+class WorldStorageAdapter implements StorageAdapter {
+	readonly id = "world";
+	private storage: StorageAdapter;
+
+	constructor(storage: StorageAdapter) {
+		this.storage = storage;
+	}
+
+	get maxValueLength(): number {
+		return this.storage.maxValueLength;
+	}
+
+	getProperty(key: string) {
+		return this.storage.getProperty(key);
+	}
+
+	setProperty(key: string, value: PropertyValue | undefined) {
+		this.storage.setProperty(key, value);
+	}
+
+	getPropertyIds(): string[] {
+		return this.storage.getPropertyIds().filter((id) => !BlockLocationTarget.isBlockProperty(id));
+	}
+
+	getTotalByteCount(): number {
+		return this.storage.getTotalByteCount();
+	}
+}
+
+/**
+ * BlockStorageAdapter stores the properties of a block location in world properties, under the key of the block.
+ */
+class BlockStorageAdapter implements StorageAdapter {
+	private target: BlockLocationTarget;
+
+	constructor(target: BlockLocationTarget) {
+		this.target = target;
+	}
+
+	get id(): string {
+		return this.target.key.slice(0, -1);
+	}
+
+	get maxValueLength(): number {
+		return getDatabaseEnvironment().getWorldStorage().maxValueLength;
+	}
+
+	getProperty(key: string) {
+		return this.target.getDynamicProperty(key);
+	}
+
+	setProperty(key: string, value: PropertyValue | undefined) {
+		this.target.setDynamicProperty(key, value);
+	}
+
+	getPropertyIds(): string[] {
+		return this.target.getDynamicPropertyIds();
+	}
+
+	getTotalByteCount(): number {
+		return this.target.getDynamicPropertyTotalByteCount();
+	}
+}
+
+/**
+ * ItemStorageAdapter stores the properties of a non-stackable item. Item data is copied with the item on every
+ * inventory change and sent to clients, so it is held to smaller limits than the world and entities.
+ * Writes past the limits throw, databases are chunked to fit the per-property limit.
+ *
+ * Items have no id, so items of the same type are told apart by an id stored on the item when it is first needed.
+ * Like every change to an item, it is only kept once the item is set back into its container.
+ */
+export class ItemStorageAdapter implements StorageAdapter {
+	/** The longest string a property of an item can hold. */
+	static readonly MAX_VALUE_LENGTH = 4096;
+	/** The most bytes the properties of an item can use, including their keys. */
+	static readonly MAX_TOTAL_BYTES = 16384;
+
+	private storage: StorageAdapter;
+
+	/**
+	 * @param storage The dynamic properties of the item.
+	 */
+	constructor(storage: StorageAdapter) {
+		this.storage = storage;
+	}
+
+	/**
+	 * `item|<id>`, with the id stored on the item when its first property is written, or `item` before that.
+	 */
+	get id(): string {
+		const stored = this.storage.getProperty(getItemIdProperty());
+		return typeof stored === "string" ? `item|${stored}` : "item";
+	}
+
+	get maxValueLength(): number {
+		return Math.min(this.storage.maxValueLength, ItemStorageAdapter.MAX_VALUE_LENGTH);
+	}
+
+	getProperty(key: string) {
+		return this.storage.getProperty(key);
+	}
+
+	setProperty(key: string, value: PropertyValue | undefined) {
+		if (value !== undefined) {
+			if (typeof value === "string" && value.length > this.maxValueLength) {
+				throw new Error(`Value of ${key} is ${value.length} characters long, the limit for items is ${this.maxValueLength}`);
+			}
+			// The first write also stores the id of the item
+			const idProperty = getItemIdProperty();
+			const newId = this.storage.getProperty(idProperty) === undefined ? createItemId() : undefined;
+			const previous = this.storage.getProperty(key);
+			const growth =
+				getPropertyByteCount(key, value) -
+				(previous === undefined ? 0 : getPropertyByteCount(key, previous)) +
+				(newId === undefined ? 0 : getPropertyByteCount(idProperty, newId));
+			if (this.storage.getTotalByteCount() + growth > ItemStorageAdapter.MAX_TOTAL_BYTES) {
+				throw new Error(`Writing ${key} exceeds the item storage limit of ${ItemStorageAdapter.MAX_TOTAL_BYTES} bytes`);
+			}
+			if (newId !== undefined) {
+				this.storage.setProperty(idProperty, newId);
+			}
+		}
+		this.storage.setProperty(key, value);
+	}
+
+	getPropertyIds(): string[] {
+		const idProperty = getItemIdProperty();
+		return this.storage.getPropertyIds().filter((id) => id !== idProperty);
+	}
+
+	getTotalByteCount(): number {
+		return this.storage.getTotalByteCount();
+	}
+
+	isValid(): boolean {
+		return this.storage.isValid?.() ?? true;
+	}
+}
+
+function getItemIdProperty(): string {
+	return `${getNamespace()}:item_id`;
+}
+
+/**
+ * Creates an id to store on an item, unique enough to tell apart the items of a world.
+ * @returns The id.
+ */
+function createItemId(): string {
+	return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+let adapterFactory: ((target: StorageTarget | undefined) => StorageAdapter) | undefined;
+
+/**
+ * Replaces how storage adapters are created for targets, such as to keep the databases of some entities elsewhere.
+ * Databases created with an explicit adapter are not affected.
+ * @param factory Creates the adapter for a target, which is undefined for the world. Pass undefined to restore the stores of the environment.
+ * @example
+ * const stores = new Map<string, MemoryStorageAdapter>();
+ * setStorageAdapterFactory((target) => {
+ * 	const id = target && "id" in target ? target.id : "world";
+ * 	if (!stores.has(id)) stores.set(id, new MemoryStorageAdapter({ id }));
+ * 	return stores.get(id)!;
+ * });
+ */
+export function setStorageAdapterFactory(factory: ((target: StorageTarget | undefined) => StorageAdapter) | undefined): void {
+	adapterFactory = factory;
+}
+
+/**
+ * Creates the storage adapter for a target with the current factory, or with the stores of the environment.
+ * @param target The target, or undefined for the world.
+ * @returns The adapter.
+ * @throws An error if the target is a stackable item, which cannot hold dynamic properties.
+ */
+export function createStorageAdapter(target: StorageTarget | undefined): StorageAdapter {
+	if (adapterFactory) return adapterFactory(target);
+	const environment = getDatabaseEnvironment();
+	// Block data written before a reload must be cleared when the block is broken, even if no target was created yet
+	BlockLocationTarget.subscribeCleanup();
+	if (target === undefined) return new WorldStorageAdapter(environment.getWorldStorage());
+	if (target instanceof BlockLocationTarget) return new BlockStorageAdapter(target);
+	if (isItemTarget(target)) return new ItemStorageAdapter(environment.createTargetStorage(target));
+	return environment.createTargetStorage(target);
+}
+
+/**
+ * Checks if a target is an item, which unlike an entity has no id.
+ */
+function isItemTarget(target: Entity | ItemStack): target is ItemStack {
+	return !("id" in target);
+}
+
+/**
+ * Checks if a value is a storage adapter rather than a storage target.
+ */
+export function isStorageAdapter(value: unknown): value is StorageAdapter {
+	return (
+		!!value && typeof (value as StorageAdapter).getProperty === "function" && typeof (value as StorageAdapter).setProperty === "function"
+	);
+}
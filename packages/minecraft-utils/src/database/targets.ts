@@ -0,0 +1,167 @@
+import type { Block, Dimension, Vector3 } from "@minecraft/server";
+import { getNamespace } from "../constants";
+import { DatabaseEnvironment, getDatabaseEnvironment } from "./environment";
+import { getPropertyByteCount } from "./utils";
+
+type PropertyValue = boolean | number | string | Vector3 | undefined;
+
+/**
+ * BlockLocationTarget stores databases for a block position, such as the state of a custom machine.
+ * Blocks have no dynamic properties, so the data is kept in world properties under a key made of the
+ * namespace, dimension and coordinates: `myproject:block|minecraft:overworld|10,64,-3|<property>`.
+ *
+ * The data is removed automatically when a player breaks the block or it is destroyed by an explosion.
+ * Blocks removed in other ways, such as by commands or pistons, must be cleared with `clear`, or found with `sweep`
+ * which compares each block with the type it had when its data was first written.
+ *
+ * @example
+ * const machine = new DatabaseManager(BlockLocationTarget.fromBlock(event.block));
+ * machine.addJSONDatabase("myproject:machine", { fuel: 64, recipe: "iron_ingot" });
+ */
+export class BlockLocationTarget {
+	private static cleanupEnvironment: DatabaseEnvironment | undefined;
+	private static readonly KEY_PATTERN = /^[^|]+:block\|[^|]+\|-?\d+,-?\d+,-?\d+\|/;
+	private static readonly LOCATION_PATTERN = /^[^|]+:block\|([^|]+)\|(-?\d+),(-?\d+),(-?\d+)\|/;
+	/** The property holding the type of the block when its data was first written, used by `sweep`. */
+	private static readonly TYPE_PROPERTY = "__typeId";
+
+	readonly dimensionId: string;
+	readonly location: Vector3;
+
+	/**
+	 * @param dimension The dimension of the block, or its id.
+	 * @param location The block location. Coordinates are floored.
+	 */
+	constructor(dimension: Dimension | string, location: Vector3) {
+		this.dimensionId = typeof dimension === "string" ? dimension : dimension.id;
+		this.location = { x: Math.floor(location.x), y: Math.floor(location.y), z: Math.floor(location.z) };
+		BlockLocationTarget.subscribeCleanup();
+	}
+
+	/**
+	 * Creates a target for the location of a block.
+	 * @param block The block.
+	 * @returns The target.
+	 */
+	static fromBlock(block: Block): BlockLocationTarget {
+		return new BlockLocationTarget(block.dimension, block.location);
+	}
+
+	/**
+	 * The key identifying the block, used as the prefix of its world properties.
+	 */
+	get key(): string {
+		const { x, y, z } = this.location;
+		return `${getNamespace()}:block|${this.dimensionId}|${x},${y},${z}|`;
+	}
+
+	/**
+	 * Checks if a world property holds data of a block location.
+	 * @param id The world property id.
+	 * @returns True if the property belongs to a block location.
+	 */
+	static isBlockProperty(id: string): boolean {
+		return BlockLocationTarget.KEY_PATTERN.test(id);
+	}
+
+	getDynamicProperty(identifier: string): PropertyValue {
+		return getDatabaseEnvironment()
+			.getWorldStorage()
+			.getProperty(this.key + identifier);
+	}
+
+	setDynamicProperty(identifier: string, value?: PropertyValue) {
+		const environment = getDatabaseEnvironment();
+		const storage = environment.getWorldStorage();
+		const typeKey = this.key + BlockLocationTarget.TYPE_PROPERTY;
+		storage.setProperty(this.key + identifier, value);
+		if (value !== undefined && storage.getProperty(typeKey) === undefined) {
+			const typeId = environment.getBlockTypeId(this.dimensionId, this.location);
+			if (typeId !== undefined && typeId !== "minecraft:air") storage.setProperty(typeKey, typeId);
+		}
+	}
+
+	getDynamicPropertyIds(): string[] {
+		const key = this.key;
+		return getDatabaseEnvironment()
+			.getWorldStorage()
+			.getPropertyIds()
+			.filter((id) => id.startsWith(key))
+			.map((id) => id.slice(key.length))
+			.filter((id) => id !== BlockLocationTarget.TYPE_PROPERTY);
+	}
+
+	/**
+	 * The type of the block when its data was first written, or undefined if its chunk was not loaded then.
+	 */
+	get typeId(): string | undefined {
+		const typeId = getDatabaseEnvironment()
+			.getWorldStorage()
+			.getProperty(this.key + BlockLocationTarget.TYPE_PROPERTY);
+		return typeof typeId === "string" ? typeId : undefined;
+	}
+
+	getDynamicPropertyTotalByteCount(): number {
+		const key = this.key;
+		return this.getDynamicPropertyIds().reduce((total, id) => total + getPropertyByteCount(key + id, this.getDynamicProperty(id)), 0);
+	}
+
+	/**
+	 * Removes every property stored for the block.
+	 */
+	clear() {
+		const key = this.key;
+		const storage = getDatabaseEnvironment().getWorldStorage();
+		for (const id of this.getDynamicPropertyIds()) {
+			storage.setProperty(key + id, undefined);
+		}
+		storage.setProperty(key + BlockLocationTarget.TYPE_PROPERTY, undefined);
+	}
+
+	/**
+	 * Removes the data of blocks in the current namespace that were removed or replaced without a break event,
+	 * such as by commands or pistons. A block is cleared if its type changed since its data was first written,
+	 * or if it is air when that type is unknown. Blocks in unloaded chunks are skipped.
+	 * @param dryRun If true, the blocks are only listed.
+	 * @returns The targets of the cleared blocks.
+	 * @example
+	 * system.runInterval(() => BlockLocationTarget.sweep(), 20 * 60);
+	 */
+	static sweep(dryRun: boolean = false): BlockLocationTarget[] {
+		const environment = getDatabaseEnvironment();
+		const prefix = `${getNamespace()}:block|`;
+		const targets = new Map<string, BlockLocationTarget>();
+		for (const id of environment.getWorldStorage().getPropertyIds()) {
+			const match = id.startsWith(prefix) ? BlockLocationTarget.LOCATION_PATTERN.exec(id) : null;
+			if (!match || targets.has(match[0])) continue;
+			const [, dimensionId, x, y, z] = match;
+			targets.set(match[0], new BlockLocationTarget(dimensionId, { x: Number(x), y: Number(y), z: Number(z) }));
+		}
+
+		const removed = Array.from(targets.values()).filter((target) => {
+			const current = environment.getBlockTypeId(target.dimensionId, target.location);
+			if (current === undefined) return false;
+			const stored = target.typeId;
+			return stored === undefined ? current === "minecraft:air" : current !== stored;
+		});
+		if (!dryRun) {
+			removed.forEach((target) => target.clear());
+		}
+		return removed;
+	}
+
+	/**
+	 * Clears the data of blocks broken by a player or destroyed by an explosion from now on.
+	 * Called when a target or a storage adapter is created, and when the Minecraft environment is installed,
+	 * so the data of blocks stored before a reload is cleared as well. Safe to call more than once.
+	 */
+	static subscribeCleanup() {
+		const environment = getDatabaseEnvironment();
+		if (BlockLocationTarget.cleanupEnvironment === environment) return;
+		BlockLocationTarget.cleanupEnvironment = environment;
+
+		environment.onBlockRemove((dimensionId, location) => {
+			new BlockLocationTarget(dimensionId, location).clear();
+		});
+	}
+}
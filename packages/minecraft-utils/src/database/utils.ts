@@ -0,0 +1,115 @@
+/**
+ * Deeply clones a stored value. Supports plain objects, arrays, Map, Set and Date.
+ * @param value The value to clone.
+ * @returns The cloned value.
+ */
+export function cloneValue<V>(value: V): V {
+	if (value === null || typeof value !== "object") return value;
+	if (value instanceof Date) return new Date(value.getTime()) as V;
+	if (value instanceof Map) {
+		return new Map(Array.from(value, ([key, entry]) => [cloneValue(key), cloneValue(entry)])) as V;
+	}
+	if (value instanceof Set) {
+		return new Set(Array.from(value, (entry) => cloneValue(entry))) as V;
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => cloneValue(entry)) as V;
+	}
+
+	const clone: Record<string, unknown> = {};
+	for (const [key, entry] of Object.entries(value)) {
+		clone[key] = cloneValue(entry);
+	}
+	return clone as V;
+}
+
+/**
+ * Deeply compares two stored values. Supports plain objects, arrays, Map, Set and Date.
+ * @returns True if both values hold the same data.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+	if (Object.is(a, b)) return true;
+	if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false;
+	if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+	if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+	if (a instanceof Map) {
+		const other = b as Map<unknown, unknown>;
+		if (a.size !== other.size) return false;
+		for (const [key, entry] of a) {
+			if (!other.has(key) || !valuesEqual(entry, other.get(key))) return false;
+		}
+		return true;
+	}
+	if (a instanceof Set) {
+		const other = b as Set<unknown>;
+		if (a.size !== other.size) return false;
+		for (const entry of a) {
+			if (!other.has(entry)) return false;
+		}
+		return true;
+	}
+	if (Array.isArray(a)) {
+		const other = b as unknown[];
+		return a.length === other.length && a.every((entry, index) => valuesEqual(entry, other[index]));
+	}
+
+	const aKeys = Object.keys(a);
+	const bKeys = Object.keys(b);
+	if (aKeys.length !== bKeys.length) return false;
+	return aKeys.every((key) => valuesEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Estimates the bytes a dynamic property takes up: its id plus its value, with strings counted in UTF-8.
+ * @param id The property id.
+ * @param value The property value.
+ * @returns The estimated size in bytes.
+ */
+export function getPropertyByteCount(id: string, value: unknown): number {
+	let valueBytes = 0;
+	if (typeof value === "string") {
+		valueBytes = getUTF8ByteLength(value);
+	} else if (typeof value === "number") {
+		valueBytes = 8;
+	} else if (typeof value === "boolean") {
+		valueBytes = 1;
+	} else if (value && typeof value === "object") {
+		// Vector3
+		valueBytes = 24;
+	}
+	return getUTF8ByteLength(id) + valueBytes;
+}
+
+function getUTF8ByteLength(text: string): number {
+	let bytes = 0;
+	for (let i = 0; i < text.length; i++) {
+		const code = text.charCodeAt(i);
+		if (code < 0x80) {
+			bytes += 1;
+		} else if (code < 0x800) {
+			bytes += 2;
+		} else if (code >= 0xd800 && code <= 0xdbff) {
+			// A surrogate pair encodes to 4 bytes
+			bytes += 4;
+			i++;
+		} else {
+			bytes += 3;
+		}
+	}
+	return bytes;
+}
+
+/**
+ * Computes the 32-bit FNV-1a hash of a string, used to detect corrupted properties.
+ * @param text The string to hash, hashed per UTF-16 code unit.
+ * @returns The hash as an unsigned integer.
+ */
+export function checksum(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
@@ -1,17 +1,37 @@
 import { BranchDatabase } from "./database";
 import { Level } from "./level";
-import { levelState } from "./interfaces";
+import { CountdownState, levelState } from "./interfaces";
 import { getNamespace } from "../constants";
 
+/**
+ * Decides if a transition can be taken once its level completes.
+ * @param branch The branch the level belongs to.
+ * @param level The completed level.
+ */
+export type TransitionGuard = (branch: Branch, level: Level) => boolean;
+
+interface Transition {
+	/** The id of the target level, or undefined to end the branch. */
+	to: string | undefined;
+	guard: TransitionGuard | undefined;
+	priority: number;
+}
+
 class BranchManager {
 	protected branchDatabase: BranchDatabase = BranchDatabase.getInstance();
 	protected levels: Map<string, Level> = new Map();
+	// Outgoing transitions by level id, highest priority first
+	protected transitions: Map<string, Transition[]> = new Map();
 
 	protected defaultActiveLevel: string | undefined;
 
 	public identifier: string;
 	public activeLevel: string | undefined;
 	public levelState!: levelState;
+	public subState: string | undefined;
+	public countdowns: Record<string, CountdownState> | undefined;
+	/** The context data of a branch spawned from a template, kept across resets. */
+	public context: Record<string, unknown> | undefined;
 
 	public levelTick!: number;
 	public stateTick!: number;
@@ -21,17 +41,25 @@ class BranchManager {
 			id: this.identifier,
 			activeLevel: this.activeLevel,
 			levelState: this.levelState,
+			subState: this.subState,
+			countdowns: this.countdowns,
+			context: this.context,
 			levelTick: this.levelTick,
 			stateTick: this.stateTick,
 		});
 	}
 
 	public resetBranch() {
+		if (this.activeLevel) {
+			this.levels.get(this.activeLevel)?.clearCountdownDisplays();
+		}
 		this.activeLevel = this.defaultActiveLevel;
 		this.levelState = levelState.INIT_LEVEL;
+		this.subState = undefined;
+		this.countdowns = undefined;
 		this.levelTick = 0;
 		this.stateTick = 0;
-		this.updateBranchState();
+		this.branchDatabase.withReason("reset", () => this.updateBranchState());
 	}
 
 	protected getBranchState() {
@@ -44,20 +72,28 @@ class BranchManager {
 
 		this.activeLevel = branchState.activeLevel;
 		this.levelState = branchState.levelState;
+		this.subState = branchState.subState;
+		this.countdowns = branchState.countdowns;
+		this.context = branchState.context;
 		this.levelTick = branchState.levelTick;
 		this.stateTick = branchState.stateTick;
 		this.updateBranchState();
 	}
 
-	constructor(name: string) {
+	constructor(name: string, context?: Record<string, unknown>) {
 		this.identifier = `${getNamespace()}:${name}`;
+		this.context = context;
 		this.getBranchState();
 	}
 }
 
 export class Branch extends BranchManager {
-	constructor(name: string) {
-		super(name);
+	/**
+	 * @param name - The name of the branch
+	 * @param context - The context data of a new branch, ignored if the branch has a stored state
+	 */
+	constructor(name: string, context?: Record<string, unknown>) {
+		super(name, context);
 	}
 
 	/**
@@ -92,21 +128,93 @@ export class Branch extends BranchManager {
 		}
 	}
 
-	jumpToLevel(levelIndex: string) {
+	/**
+	 * Jump to a level, or directly to one of its sub-states
+	 * @param levelIndex - The name of the level
+	 * @param subState - The sub-state to start the level loop in. If undefined, the level starts from INIT_LEVEL
+	 * @example
+	 * branch.jumpToLevel("arena", "boss");
+	 */
+	jumpToLevel(levelIndex: string, subState?: string) {
 		const levelId = this.identifier + "_" + levelIndex;
 		const level = this.levels.get(levelId);
 
-		if (level) {
+		if (!level) {
+			console.warn("Level not found: " + levelId);
+		} else if (subState !== undefined && !level.hasSubState(subState)) {
+			console.warn(`Sub-state not found: ${subState} in ${levelId}`);
+		} else {
+			if (this.activeLevel) {
+				this.levels.get(this.activeLevel)?.clearCountdownDisplays();
+			}
 			this.activeLevel = level.identifier;
 			this.levelState = levelState.INIT_LEVEL;
+			this.subState = undefined;
+			this.countdowns = undefined;
 			this.levelTick = 0;
 			this.stateTick = 0;
-			this.updateBranchState();
-		} else {
-			console.warn("Level not found: " + levelId);
+			this.branchDatabase.withReason(subState === undefined ? `jump ${levelIndex}` : `jump ${levelIndex} ${subState}`, () => {
+				this.updateBranchState();
+				if (subState !== undefined) {
+					level.jumpToSubState(subState);
+				}
+			});
+			this.getBranchState();
 		}
 	}
 
+	/**
+	 * Add a transition between two levels, taken when the first level completes and the guard passes.
+	 * When a level completes, its transitions are checked from the highest priority to the lowest,
+	 * in declaration order for equal priorities, and the first one whose guard passes is taken.
+	 * If no guard passes, the branch waits on the completed level and checks again every tick.
+	 * Levels without transitions move on to the next level in the order they were added.
+	 * @param from - The name of the level the transition starts from
+	 * @param to - The name of the level to move to, or undefined to end the branch
+	 * @param guard - The condition to take the transition, always taken if undefined
+	 * @param priority - The priority of the transition, 0 by default
+	 * @example
+	 * branch.addTransition("arena", "victory", () => bossDefeated, 1);
+	 * branch.addTransition("arena", "lobby", (branch) => branch.levelTick > 20 * 60 * 5);
+	 */
+	addTransition(from: string, to: string | undefined, guard?: TransitionGuard, priority: number = 0) {
+		const fromId = `${this.identifier}_${from}`;
+		const toId = to === undefined ? undefined : `${this.identifier}_${to}`;
+		for (const levelId of [fromId, toId]) {
+			if (levelId !== undefined && !this.levels.has(levelId)) {
+				throw new Error(`Level ${levelId} does not exist. Error at Branch.addTransition`);
+			}
+		}
+
+		const transitions = this.transitions.get(fromId) ?? [];
+		const index = transitions.findIndex((transition) => transition.priority < priority);
+		transitions.splice(index === -1 ? transitions.length : index, 0, { to: toId, guard, priority });
+		this.transitions.set(fromId, transitions);
+	}
+
+	/**
+	 * Check if any transition was declared in the branch
+	 * @returns True if the levels follow declared transitions rather than only the order they were added in
+	 */
+	hasTransitions(): boolean {
+		return this.transitions.size > 0;
+	}
+
+	/**
+	 * Pick the level to move to once a level completes
+	 * @param level - The completed level
+	 * @returns The id of the next level, undefined to end the branch, or null if no transition can be taken yet
+	 */
+	private getNextLevelId(level: Level): string | undefined | null {
+		const transitions = this.transitions.get(level.identifier);
+		if (!transitions) {
+			const levelIDs = Array.from(this.levels.keys());
+			return levelIDs[levelIDs.indexOf(level.identifier) + 1];
+		}
+		const transition = transitions.find((transition) => !transition.guard || transition.guard(this, level));
+		return transition ? transition.to : null;
+	}
+
 	/**
 	 * Add a level to the branch
 	 * @param name - The name of the level
@@ -135,17 +243,27 @@ export class Branch extends BranchManager {
 			this.stateTick++;
 
 			// Progresses to the next level if it exists, the actual level states are handled in the level class
+			let transition: string | undefined;
 			if (this.levelState == levelState.COMPLETED) {
-				const levelIDs = Array.from(this.levels.keys());
-				const nextLevelID = levelIDs[levelIDs.indexOf(level.identifier) + 1];
-				const nextLevel = this.levels.get(nextLevelID);
-
-				this.activeLevel = nextLevelID ? nextLevelID : undefined;
-				this.levelState = nextLevel ? levelState.INIT_LEVEL : levelState.COMPLETED;
-				this.levelTick = 0;
-				this.stateTick = 0;
+				const nextLevelID = this.getNextLevelId(level);
+				if (nextLevelID !== null) {
+					const nextLevel = nextLevelID ? this.levels.get(nextLevelID) : undefined;
+
+					level.clearCountdownDisplays();
+					this.activeLevel = nextLevel ? nextLevelID : undefined;
+					this.levelState = nextLevel ? levelState.INIT_LEVEL : levelState.COMPLETED;
+					this.subState = undefined;
+					this.countdowns = undefined;
+					this.levelTick = 0;
+					this.stateTick = 0;
+					transition = `transition ${level.identifier} -> ${this.activeLevel ?? "end"}`;
+				}
+			}
+			if (transition) {
+				this.branchDatabase.withReason(transition, () => this.updateBranchState());
+			} else {
+				this.updateBranchState();
 			}
-			this.updateBranchState();
 		}
 		this.getBranchState();
 	}
@@ -0,0 +1,97 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { DatabaseManager } from "../database/database";
+import { setDatabaseEnvironment } from "../database/environment";
+import { MemoryEnvironment } from "../database/memory";
+import { BranchDatabase, PlayerDatabase } from "./database";
+import { BranchObject, levelState, playerState } from "./interfaces";
+
+let environment: MemoryEnvironment;
+
+beforeAll(() => {
+	environment = new MemoryEnvironment();
+	setDatabaseEnvironment(environment);
+});
+
+function branch(id: string, overrides: Partial<BranchObject> = {}): BranchObject {
+	return { id, activeLevel: "lobby", levelState: levelState.LOOP, levelTick: 0, stateTick: 0, ...overrides };
+}
+
+describe("BranchDatabase", () => {
+	it("stores branches with a checksum and a backup", () => {
+		const database = BranchDatabase.getInstance();
+		database.addObject(branch("starktma:main"));
+		database.updateObject(branch("starktma:main", { activeLevel: "arena" }));
+		database.forceSave();
+
+		const manager = new DatabaseManager(environment.world);
+		expect(manager.verifyJSONDatabase("starktma:branchDatabase")).toBeUndefined();
+		expect(manager.getJSONDatabase("starktma:branchDatabase")).toEqual([branch("starktma:main", { activeLevel: "arena" })]);
+	});
+
+	it("quarantines invalid branches", () => {
+		const database = BranchDatabase.getInstance();
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		database.addObject(branch("starktma:broken", { levelTick: -1 }));
+		warn.mockRestore();
+
+		expect(database.hasObject("starktma:broken")).toBe(false);
+		expect(database.getQuarantinedRecords().map((quarantined) => quarantined.record)).toEqual([
+			branch("starktma:broken", { levelTick: -1 }),
+		]);
+	});
+
+	it("saves tick changes after the debounce delay and state changes on the next tick", () => {
+		const database = BranchDatabase.getInstance();
+		database.addObject(branch("starktma:timed"));
+		environment.tick();
+		expect(database.isDirty()).toBe(false);
+
+		database.updateObject(branch("starktma:timed", { levelTick: 1, stateTick: 1 }));
+		environment.tick();
+		expect(database.isDirty()).toBe(true);
+		environment.tick(20);
+		expect(database.isDirty()).toBe(false);
+
+		database.updateObject(branch("starktma:timed", { levelTick: 22, stateTick: 0, levelState: levelState.END_LEVEL }));
+		environment.tick();
+		expect(database.isDirty()).toBe(false);
+		const stored = new DatabaseManager(environment.world).getJSONDatabase("starktma:branchDatabase") as BranchObject[];
+		expect(stored.find((object) => object.id === "starktma:timed")?.levelState).toBe(levelState.END_LEVEL);
+	});
+
+	it("saves the ticks of a branch updated every tick", () => {
+		const database = BranchDatabase.getInstance();
+		for (let tick = 0; tick < 2000; tick++) {
+			database.updateObject(branch("starktma:running", { levelTick: tick, stateTick: tick }));
+			environment.tick();
+		}
+
+		const stored = new DatabaseManager(environment.world).getJSONDatabase("starktma:branchDatabase") as BranchObject[];
+		expect(stored.find((object) => object.id === "starktma:running")?.levelTick).toBeGreaterThan(1800);
+	});
+
+	it("persists the context of spawned branches", () => {
+		const database = BranchDatabase.getInstance();
+		database.addObject(branch("starktma:arena#0", { context: { origin: { x: 1, y: 2, z: 3 } } }));
+		database.forceSave();
+
+		const stored = new DatabaseManager(environment.world).getJSONDatabase("starktma:branchDatabase") as BranchObject[];
+		expect(stored.find((object) => object.id === "starktma:arena#0")?.context).toEqual({ origin: { x: 1, y: 2, z: 3 } });
+	});
+});
+
+describe("PlayerDatabase", () => {
+	it("keeps the players in the existing single property and indexes them by branch", () => {
+		const database = PlayerDatabase.getInstance();
+		database.addObject({ id: "p1", branch: "starktma:main", playerLevel: "lobby", playerState: playerState.SETUP_PLAYER });
+		database.addObject({ id: "p2", branch: "starktma:arena#0", playerLevel: "", playerState: playerState.SETUP_PLAYER });
+		database.forceSave();
+
+		expect(environment.world.getProperty("starktma:playerDatabase")).toBeTypeOf("string");
+		expect(environment.world.getProperty("starktma:playerDatabase#p1")).toBeUndefined();
+		expect(database.findBy("branch", "starktma:arena#0").map((player) => player.id)).toEqual(["p2"]);
+
+		database.updateObject({ id: "p2", branch: "starktma:main", playerLevel: "lobby", playerState: playerState.SETUP_PLAYER });
+		expect(database.findBy("branch", "starktma:main").map((player) => player.id)).toEqual(["p1", "p2"]);
+	});
+});
@@ -1,32 +1,57 @@
-import { PlayerObject, BranchObject } from "./interfaces";
-import { SimpleDatabase, SimpleObject } from "../database";
+import { PlayerObject, BranchObject, levelState, playerState } from "./interfaces";
+import { SimpleDatabase, SimpleObject } from "../database/database";
+import { schema } from "../database/schema";
+import { valuesEqual } from "../database/utils";
 
-abstract class ForceSaveDatabase<T extends SimpleObject> extends SimpleDatabase<T> {
-	addObject(object: T): void {
-		super.addObject(object);
-		this.forceSave();
-	}
+const branchSchema = schema.object({
+	id: schema.string({ minLength: 1 }),
+	activeLevel: schema.string().optional(),
+	levelState: schema.enum(levelState),
+	subState: schema.string().optional(),
+	countdowns: schema
+		.record(schema.object({ start: schema.number({ integer: true, min: 0 }), ticks: schema.number({ integer: true, min: 0 }) }))
+		.optional(),
+	context: schema.record(schema.any()).optional(),
+	levelTick: schema.number({ integer: true, min: 0 }),
+	stateTick: schema.number({ integer: true, min: 0 }),
+});
 
-	updateObject(object: T): void {
-		super.updateObject(object);
-		this.forceSave();
-	}
+const playerSchema = schema.object({
+	id: schema.string({ minLength: 1 }),
+	branch: schema.string({ minLength: 1 }),
+	playerLevel: schema.string(),
+	playerState: schema.enum(playerState),
+});
 
-	removeObject(id: string): void {
-		super.removeObject(id);
-		this.forceSave();
-	}
-
-	eraseAllObjects(): void {
-		super.eraseAllObjects();
-		this.forceSave();
-	}
+/**
+ * Saves a database on the tick after one of its records is added, removed, or changes one of the given fields.
+ * Other changes, such as the tick counters of branches, are left to the debounced persistence policy,
+ * and unsaved changes are saved on shutdown.
+ * @param database The database.
+ * @param fields The fields that make up the state of a record.
+ */
+function saveOnStateChange<T extends SimpleObject>(database: SimpleDatabase<T>, fields: (keyof T)[]) {
+	const save = () => {
+		if (database.isDirty()) database.forceSave();
+	};
+	database.onAdded(save);
+	database.onRemoved(save);
+	database.onUpdated((previous, next) => {
+		if (fields.some((field) => !valuesEqual(previous[field], next[field]))) save();
+	});
 }
 
-export class BranchDatabase extends ForceSaveDatabase<BranchObject> {
+export class BranchDatabase extends SimpleDatabase<BranchObject> {
 	protected static instance: BranchDatabase;
 	private constructor() {
-		super("branchDatabase", undefined);
+		super("branchDatabase", undefined, {
+			schema: branchSchema,
+			invalidPolicy: "quarantine",
+			persistence: { mode: "debounced" },
+			integrity: "backup",
+			history: { ignoreFields: ["levelTick", "stateTick"] },
+		});
+		saveOnStateChange<BranchObject>(this, ["activeLevel", "levelState", "subState", "countdowns", "context"]);
 	}
 
 	static getInstance(): BranchDatabase {
@@ -37,10 +62,16 @@ export class BranchDatabase extends ForceSaveDatabase<BranchObject> {
 	}
 }
 
-export class PlayerDatabase extends ForceSaveDatabase<PlayerObject> {
+export class PlayerDatabase extends SimpleDatabase<PlayerObject> {
 	protected static instance: PlayerDatabase;
 	private constructor() {
-		super("playerDatabase", undefined);
+		super("playerDatabase", undefined, {
+			indexes: ["branch"],
+			schema: playerSchema,
+			invalidPolicy: "quarantine",
+			persistence: { mode: "debounced" },
+		});
+		saveOnStateChange<PlayerObject>(this, ["branch", "playerLevel", "playerState"]);
 	}
 
 	static getInstance(): PlayerDatabase {
@@ -10,10 +10,26 @@ export enum playerState {
 	EXIT_PLAYER = "EXIT_PLAYER",
 }
 
+/**
+ * A running countdown, stored so it resumes after a reload.
+ */
+export interface CountdownState {
+	/** The levelTick of the branch when the countdown started. */
+	start: number;
+	/** The length of the countdown, in ticks. */
+	ticks: number;
+}
+
 export interface BranchObject {
 	id: string;
 	activeLevel: string | undefined;
 	levelState: levelState;
+	/** The active sub-state of the level while it loops, if the level declares sub-states. */
+	subState?: string;
+	/** The running countdowns of the active level, by name. */
+	countdowns?: Record<string, CountdownState>;
+	/** The context data of a branch spawned from a template, such as the origin of its arena. */
+	context?: Record<string, unknown>;
 	levelTick: number;
 	stateTick: number;
 }
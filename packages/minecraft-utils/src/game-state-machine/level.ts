@@ -1,4 +1,4 @@
-import { BranchDatabase } from "./database";
+import { BranchDatabase, PlayerDatabase } from "./database";
 import { BranchObject, levelState } from "./interfaces";
 import * as mc from "@minecraft/server";
 
@@ -110,9 +110,64 @@ class EventsRegistry {
 	}
 }
 
+/**
+ * Hooks of a level sub-state. Enter and exit run once when the sub-state starts and ends, loop runs every tick while it is active.
+ */
+export interface SubStateHooks {
+	onEnter?: () => void;
+	onLoop?: () => void;
+	onExit?: () => void;
+}
+
+/**
+ * Decides if a sub-state transition can be taken.
+ * @param level The level the sub-states belong to.
+ */
+export type SubStateGuard = (level: Level) => boolean;
+
+interface SubStateTransition {
+	/** The target sub-state, or undefined to end the loop. */
+	to: string | undefined;
+	guard: SubStateGuard | undefined;
+	priority: number;
+}
+
+/**
+ * Options of a level countdown.
+ */
+export interface CountdownOptions {
+	/**
+	 * Where the remaining time is shown every tick: on the actionbar of the players in the level,
+	 * or as the score of the countdown name in an objective, in seconds. Not shown by default.
+	 */
+	display?: "actionbar" | { objective: string };
+	/**
+	 * Formats the remaining time shown on the actionbar, "name: m:ss" by default.
+	 * @param seconds - The remaining time, in seconds
+	 */
+	format?: (seconds: number) => string;
+	/** Runs once when the countdown reaches zero. */
+	onEnd?: () => void;
+}
+
+interface LevelTimer {
+	ticks: number;
+	state: levelState;
+	subState: string | undefined;
+	callback: () => void;
+}
+
 export class Level {
+	private static readonly TICKS_PER_SECOND = 20;
+
 	private branchIdentifier: string;
 	private branchDatabase: BranchDatabase;
+	// Sub-states in declaration order, and their outgoing transitions, highest priority first
+	private subStates: Map<string, SubStateHooks> = new Map();
+	private subStateTransitions: Map<string, SubStateTransition[]> = new Map();
+	private autoAdvances: Omit<LevelTimer, "callback">[] = [];
+	private timers: LevelTimer[] = [];
+	private countdowns: Map<string, { ticks: number; options: CountdownOptions }> = new Map();
 
 	public identifier: string;
 	public levelIndex: number;
@@ -134,20 +189,326 @@ export class Level {
 		this.events = new EventsRegistry(this.eventTrigger);
 	}
 
-	nextState() {
-		let branch: BranchObject = this.branchDatabase.getObject(this.branchIdentifier)!;
+	/**
+	 * Add a sub-state to the level loop, such as a wave or a cutscene.
+	 * Once the level reaches LOOP it starts in the first sub-state added, and nextState moves through the sub-states
+	 * before the level moves on to END_LEVEL.
+	 * @param name - The name of the sub-state
+	 * @param hooks - The functions to run when the sub-state starts, every tick while it is active and when it ends
+	 * @example
+	 * level.addSubState("intro", { onEnter: () => playCutscene() });
+	 * level.addSubState("wave1", { onEnter: () => spawnWave(1), onLoop: () => { if (waveCleared()) level.nextState(); } });
+	 * level.addSubState("boss", { onEnter: () => spawnBoss(), onExit: () => giveRewards() });
+	 */
+	addSubState(name: string, hooks: SubStateHooks = {}) {
+		if (this.subStates.has(name)) {
+			throw new Error(`Sub-state ${name} already exists in ${this.identifier}. Error at Level.addSubState`);
+		}
+		this.subStates.set(name, hooks);
+	}
 
-		if (branch.levelState == levelState.END_LEVEL) {
-			branch.levelState = levelState.COMPLETED;
-		} else if (branch.levelState == levelState.LOOP) {
-			branch.levelState = levelState.END_LEVEL;
-		} else if (branch.levelState == levelState.INIT_LEVEL) {
-			branch.levelState = levelState.LOOP;
+	/**
+	 * Add a transition between two sub-states, taken by nextState when its guard passes.
+	 * Transitions are checked from the highest priority to the lowest, in declaration order for equal priorities.
+	 * If no guard passes, the level stays in the current sub-state. Sub-states without transitions move on in declaration order.
+	 * @param from - The sub-state the transition starts from
+	 * @param to - The sub-state to move to, or undefined to end the loop and move to END_LEVEL
+	 * @param guard - The condition to take the transition, always taken if undefined
+	 * @param priority - The priority of the transition, 0 by default
+	 * @example
+	 * level.addSubStateTransition("wave2", "wave1", () => playersAlive() === 0, 1);
+	 */
+	addSubStateTransition(from: string, to: string | undefined, guard?: SubStateGuard, priority: number = 0) {
+		for (const name of [from, to]) {
+			if (name !== undefined && !this.subStates.has(name)) {
+				throw new Error(`Sub-state ${name} does not exist in ${this.identifier}. Error at Level.addSubStateTransition`);
+			}
 		}
 
-		branch.stateTick = 0;
+		const transitions = this.subStateTransitions.get(from) ?? [];
+		const index = transitions.findIndex((transition) => transition.priority < priority);
+		transitions.splice(index === -1 ? transitions.length : index, 0, { to, guard, priority });
+		this.subStateTransitions.set(from, transitions);
+	}
+
+	/**
+	 * Check if the level declares a sub-state
+	 * @param name - The name of the sub-state
+	 */
+	hasSubState(name: string): boolean {
+		return this.subStates.has(name);
+	}
 
+	/**
+	 * Get the active sub-state of the level
+	 * @returns The sub-state, or undefined if the level is not looping or has no sub-states
+	 */
+	getSubState(): string | undefined {
+		return this.branchDatabase.getObject(this.branchIdentifier)?.subState;
+	}
+
+	/**
+	 * Move to another sub-state, running the exit hook of the current sub-state and the enter hook of the next one.
+	 * @param to - The sub-state to move to. If undefined, the transitions of the current sub-state decide
+	 * @returns True if the sub-state changed, false if no transition guard passed or the level is not in a sub-state
+	 */
+	nextSubState(to?: string): boolean {
+		const current = this.getSubState();
+		if (current === undefined) {
+			console.warn(`${this.identifier} is not in a sub-state. Error at Level.nextSubState`);
+			return false;
+		}
+		if (to !== undefined && !this.subStates.has(to)) {
+			throw new Error(`Sub-state ${to} does not exist in ${this.identifier}. Error at Level.nextSubState`);
+		}
+
+		const next = to ?? this.getNextSubState(current);
+		if (next === null) return false;
+
+		this.subStates.get(current)?.onExit?.();
+		this.branchDatabase.withReason(`sub-state ${current} -> ${next ?? "end"}`, () => {
+			const branch: BranchObject = this.branchDatabase.getObject(this.branchIdentifier)!;
+			branch.subState = next;
+			branch.levelState = next === undefined ? levelState.END_LEVEL : levelState.LOOP;
+			branch.stateTick = 0;
+			this.branchDatabase.updateObject(branch);
+		});
+		if (next !== undefined) {
+			this.subStates.get(next)?.onEnter?.();
+		}
+		return true;
+	}
+
+	/**
+	 * Start the level loop in a sub-state without running the exit hook of the current state, used by Branch.jumpToLevel.
+	 * @param name - The sub-state to start in
+	 */
+	jumpToSubState(name: string) {
+		if (!this.subStates.has(name)) {
+			throw new Error(`Sub-state ${name} does not exist in ${this.identifier}. Error at Level.jumpToSubState`);
+		}
+		const branch: BranchObject = this.branchDatabase.getObject(this.branchIdentifier)!;
+		branch.levelState = levelState.LOOP;
+		branch.subState = name;
+		branch.stateTick = 0;
 		this.branchDatabase.updateObject(branch);
+		this.subStates.get(name)!.onEnter?.();
+	}
+
+	/**
+	 * Pick the sub-state to move to from the current one
+	 * @returns The next sub-state, undefined to end the loop, or null if no transition can be taken yet
+	 */
+	private getNextSubState(current: string): string | undefined | null {
+		const transitions = this.subStateTransitions.get(current);
+		if (!transitions) {
+			const names = Array.from(this.subStates.keys());
+			return names[names.indexOf(current) + 1];
+		}
+		const transition = transitions.find((transition) => !transition.guard || transition.guard(this));
+		return transition ? transition.to : null;
+	}
+
+	/**
+	 * Move to the next state once the level spent a number of ticks in a state.
+	 * Timers count the ticks the branch is active, so they pause while the branch is deactivated
+	 * and resume from the ticks stored in the BranchDatabase after a reload.
+	 * @param ticks - The number of ticks to spend in the state
+	 * @param state - The state to leave, LOOP by default
+	 * @param subState - The sub-state to leave, or undefined for any sub-state
+	 * @example
+	 * level.autoAdvance(100, levelState.INIT_LEVEL);
+	 * level.autoAdvance(20 * 30, levelState.LOOP, "intro");
+	 */
+	autoAdvance(ticks: number, state: levelState = levelState.LOOP, subState?: string) {
+		if (!Number.isInteger(ticks) || ticks <= 0) {
+			throw new Error(`Auto advance delay must be a positive integer, got ${ticks}. Error at Level.autoAdvance`);
+		}
+		this.autoAdvances.push({ ticks, state, subState });
+	}
+
+	/**
+	 * Run a function every number of ticks the level spends in a state, counted like autoAdvance.
+	 * @param ticks - The number of ticks between two runs
+	 * @param callback - The function to run
+	 * @param state - The state to run in, LOOP by default
+	 * @param subState - The sub-state to run in, or undefined for any sub-state
+	 * @example
+	 * level.addTimer(20 * 10, () => spawnSupplyDrop());
+	 */
+	addTimer(ticks: number, callback: () => void, state: levelState = levelState.LOOP, subState?: string) {
+		if (!Number.isInteger(ticks) || ticks <= 0) {
+			throw new Error(`Timer interval must be a positive integer, got ${ticks}. Error at Level.addTimer`);
+		}
+		this.timers.push({ ticks, state, subState, callback });
+	}
+
+	/**
+	 * Declare a named countdown, started later with startCountdown.
+	 * Running countdowns are stored in the BranchDatabase, so they pause with the branch and resume after a reload.
+	 * They are stopped when the branch moves to another level.
+	 * @param name - The name of the countdown
+	 * @param ticks - The default length of the countdown
+	 * @param options - Where the remaining time is shown and what happens when it ends
+	 * @example
+	 * level.addCountdown("Round", 20 * 60, { display: "actionbar", onEnd: () => level.nextState() });
+	 * level.addSubState("fight", { onEnter: () => level.startCountdown("Round") });
+	 */
+	addCountdown(name: string, ticks: number, options: CountdownOptions = {}) {
+		if (this.countdowns.has(name)) {
+			throw new Error(`Countdown ${name} already exists in ${this.identifier}. Error at Level.addCountdown`);
+		}
+		this.countdowns.set(name, { ticks, options });
+	}
+
+	/**
+	 * Start a countdown, or restart it if it is running
+	 * @param name - The name of the countdown
+	 * @param ticks - The length of the countdown, the declared length if undefined
+	 */
+	startCountdown(name: string, ticks?: number) {
+		const countdown = this.countdowns.get(name);
+		if (!countdown) {
+			throw new Error(`Countdown ${name} does not exist in ${this.identifier}. Error at Level.startCountdown`);
+		}
+		if (this.branchDatabase.getObject(this.branchIdentifier)?.activeLevel !== this.identifier) {
+			console.warn(`${this.identifier} is not the active level. Error at Level.startCountdown`);
+			return;
+		}
+		this.branchDatabase.withReason(`start countdown ${name}`, () => {
+			const branch: BranchObject = this.branchDatabase.getObject(this.branchIdentifier)!;
+			branch.countdowns = { ...branch.countdowns, [name]: { start: branch.levelTick, ticks: ticks ?? countdown.ticks } };
+			this.branchDatabase.updateObject(branch);
+		});
+	}
+
+	/**
+	 * Stop a countdown without running its end function
+	 * @param name - The name of the countdown
+	 */
+	stopCountdown(name: string) {
+		const stored = this.branchDatabase.getObject(this.branchIdentifier);
+		if (stored?.activeLevel !== this.identifier || !stored.countdowns?.[name]) return;
+
+		this.branchDatabase.withReason(`stop countdown ${name}`, () => {
+			const branch: BranchObject = this.branchDatabase.getObject(this.branchIdentifier)!;
+			const { [name]: _, ...countdowns } = branch.countdowns!;
+			branch.countdowns = Object.keys(countdowns).length > 0 ? countdowns : undefined;
+			this.branchDatabase.updateObject(branch);
+		});
+		this.clearCountdownDisplay(name);
+	}
+
+	/**
+	 * Get the remaining time of a countdown
+	 * @param name - The name of the countdown
+	 * @returns The remaining ticks, or undefined if the countdown is not running
+	 */
+	getCountdown(name: string): number | undefined {
+		const branch = this.branchDatabase.getObject(this.branchIdentifier);
+		const countdown = branch?.activeLevel === this.identifier ? branch.countdowns?.[name] : undefined;
+		return countdown ? Math.max(countdown.ticks - (branch!.levelTick - countdown.start), 0) : undefined;
+	}
+
+	/**
+	 * Remove the scores of the countdowns shown in objectives, used by Branch when it leaves the level.
+	 */
+	clearCountdownDisplays() {
+		this.countdowns.forEach((_, name) => this.clearCountdownDisplay(name));
+	}
+
+	private clearCountdownDisplay(name: string) {
+		const display = this.countdowns.get(name)?.options.display;
+		if (typeof display === "object") {
+			mc.world.scoreboard.getObjective(display.objective)?.removeParticipant(name);
+		}
+	}
+
+	private showCountdown(name: string, options: CountdownOptions, remaining: number) {
+		const seconds = Math.ceil(remaining / Level.TICKS_PER_SECOND);
+		if (options.display === "actionbar") {
+			const text = options.format
+				? options.format(seconds)
+				: `${name}: ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+			const playerIds = new Set(
+				PlayerDatabase.getInstance()
+					.findBy("branch", this.branchIdentifier)
+					.filter((player) => player.playerLevel === this.identifier)
+					.map((player) => player.id)
+			);
+			mc.world
+				.getAllPlayers()
+				.filter((player) => playerIds.has(player.id))
+				.forEach((player) => player.onScreenDisplay.setActionBar(text));
+		} else if (options.display) {
+			const objective =
+				mc.world.scoreboard.getObjective(options.display.objective) ?? mc.world.scoreboard.addObjective(options.display.objective, name);
+			objective.setScore(name, seconds);
+		}
+	}
+
+	private isTimerState(timer: { state: levelState; subState: string | undefined }, branch: BranchObject): boolean {
+		return branch.levelState === timer.state && (timer.subState === undefined || branch.subState === timer.subState);
+	}
+
+	/**
+	 * Run the countdowns, timers and auto-advances of the level, each against the stored state since the previous ones may change it
+	 */
+	private tickTimers() {
+		let branch: BranchObject = this.branchDatabase.getObject(this.branchIdentifier)!;
+		for (const [name, { start, ticks }] of Object.entries(branch.countdowns ?? {})) {
+			const countdown = this.countdowns.get(name);
+			const remaining = ticks - (branch.levelTick - start);
+			if (countdown) {
+				this.showCountdown(name, countdown.options, Math.max(remaining, 0));
+			}
+			if (remaining <= 0) {
+				this.stopCountdown(name);
+				countdown?.options.onEnd?.();
+			}
+		}
+
+		branch = this.branchDatabase.getObject(this.branchIdentifier)!;
+		this.timers.forEach((timer) => {
+			if (this.isTimerState(timer, branch) && branch.stateTick > 0 && branch.stateTick % timer.ticks === 0) {
+				timer.callback();
+			}
+		});
+
+		branch = this.branchDatabase.getObject(this.branchIdentifier)!;
+		if (this.autoAdvances.some((advance) => this.isTimerState(advance, branch) && branch.stateTick >= advance.ticks)) {
+			this.nextState();
+		}
+	}
+
+	nextState() {
+		if (this.getSubState() !== undefined) {
+			this.nextSubState();
+			return;
+		}
+
+		let entered: string | undefined;
+		this.branchDatabase.withReason("next state", () => {
+			let branch: BranchObject = this.branchDatabase.getObject(this.branchIdentifier)!;
+
+			if (branch.levelState == levelState.END_LEVEL) {
+				branch.levelState = levelState.COMPLETED;
+			} else if (branch.levelState == levelState.LOOP) {
+				branch.levelState = levelState.END_LEVEL;
+			} else if (branch.levelState == levelState.INIT_LEVEL) {
+				branch.levelState = levelState.LOOP;
+				// The loop starts in the first sub-state, if any
+				entered = this.subStates.keys().next().value;
+				branch.subState = entered;
+			}
+
+			branch.stateTick = 0;
+
+			this.branchDatabase.updateObject(branch);
+		});
+		if (entered !== undefined) {
+			this.subStates.get(entered)!.onEnter?.();
+		}
 	}
 
 	tick() {
@@ -157,10 +518,15 @@ export class Level {
 			this.eventTrigger.triggerLevelLoad();
 		} else if (branch.levelState == levelState.LOOP) {
 			this.eventTrigger.triggerLevelLoop();
+			const subState = this.getSubState();
+			if (subState !== undefined) {
+				this.subStates.get(subState)?.onLoop?.();
+			}
 		} else if (branch.levelState == levelState.END_LEVEL) {
 			this.eventTrigger.triggerLevelExit();
 		}
 		this.levelTick = branch.levelTick;
 		this.stateTick = branch.stateTick;
+		this.tickTimers();
 	}
 }
@@ -0,0 +1,312 @@
+import type { Player } from "@minecraft/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MemoryEnvironment } from "../database/memory";
+import type { Branch } from "./branch";
+import { levelState } from "./interfaces";
+
+// The game runtime only exists in Minecraft, so the world and the scheduler are replaced by a fake world
+// whose events are sent by the tests and whose runs are scheduled in the memory environment of the databases
+const game = vi.hoisted(() => {
+	type Handler = (event: unknown) => void;
+	const handlers = new Map<string, Handler[]>();
+	const signals = (scope: string) =>
+		new Proxy(
+			{},
+			{
+				get: (_, name) => ({
+					subscribe: (handler: Handler) => {
+						const key = `${scope}.${String(name)}`;
+						handlers.set(key, [...(handlers.get(key) ?? []), handler]);
+						return handler;
+					},
+					unsubscribe: () => {},
+				}),
+			}
+		);
+
+	const state = {
+		environment: undefined as MemoryEnvironment | undefined,
+		players: [] as Player[],
+		emit(key: string, event: unknown) {
+			(handlers.get(key) ?? []).forEach((handler) => handler(event));
+		},
+		reset() {
+			handlers.clear();
+			state.players = [];
+		},
+		world: {
+			afterEvents: signals("world.afterEvents"),
+			beforeEvents: signals("world.beforeEvents"),
+			getAllPlayers: () => state.players,
+		},
+		system: {
+			afterEvents: signals("system.afterEvents"),
+			beforeEvents: signals("system.beforeEvents"),
+			runInterval: (callback: () => void, ticks?: number) => state.environment!.runInterval(callback, ticks ?? 1),
+		},
+	};
+	return state;
+});
+
+vi.mock("@minecraft/server", () => ({
+	world: game.world,
+	system: game.system,
+	Entity: class {},
+	ItemStack: class {},
+	World: class {},
+}));
+
+/**
+ * Loads the state machine as the game does when the world loads, with fresh modules and singletons.
+ * @param saved The environment of a previous session. Its databases are saved as on shutdown, and its world properties are kept.
+ */
+async function load(saved?: MemoryEnvironment) {
+	saved?.shutdown();
+	vi.resetModules();
+	game.reset();
+
+	const { MemoryEnvironment } = await import("../database/memory");
+	const environment = new MemoryEnvironment();
+	saved?.world.getPropertyIds().forEach((id) => environment.world.setProperty(id, saved.world.getProperty(id)));
+
+	// Importing the state machine installs the Minecraft environment, so the memory environment is installed after it
+	const machine = await import("./stateMachine");
+	const { setDatabaseEnvironment } = await import("../database/environment");
+	const { BranchDatabase, PlayerDatabase } = await import("./database");
+	setDatabaseEnvironment(environment);
+	game.environment = environment;
+	game.emit("world.afterEvents.worldLoad", {});
+
+	return {
+		environment,
+		stateMachine: machine.stateMachine,
+		mainBranch: machine.mainBranch,
+		branchDatabase: BranchDatabase.getInstance(),
+		playerDatabase: PlayerDatabase.getInstance(),
+	};
+}
+
+/**
+ * Starts a branch at its default level. Branches created by the state machine have no active level until they are reset.
+ */
+function start(branch: Branch, stateMachine: Awaited<ReturnType<typeof load>>["stateMachine"]) {
+	branch.resetBranch();
+	stateMachine.activateBranch(branch);
+}
+
+beforeEach(() => {
+	vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("Branch transitions", () => {
+	it("takes the first passing transition by priority, then in declaration order", async () => {
+		const { stateMachine, environment } = await load();
+		const branch = stateMachine.createBranch("quest");
+		const intro = branch.addLevel("intro", true);
+		["fallback", "first", "second", "locked"].forEach((name) => branch.addLevel(name));
+		branch.addTransition("intro", "fallback");
+		branch.addTransition("intro", "first", undefined, 1);
+		branch.addTransition("intro", "second", undefined, 1);
+		branch.addTransition("intro", "locked", () => false, 2);
+		start(branch, stateMachine);
+
+		intro.nextState();
+		intro.nextState();
+		intro.nextState();
+		environment.tick();
+
+		expect(branch.activeLevel).toBe("starktma:quest_first");
+		expect(branch.levelState).toBe(levelState.INIT_LEVEL);
+	});
+
+	it("waits on a completed level until a guard passes and ends the branch on a transition to nowhere", async () => {
+		const { stateMachine, environment } = await load();
+		const branch = stateMachine.createBranch("quest");
+		const intro = branch.addLevel("intro", true);
+		const outro = branch.addLevel("outro");
+		let unlocked = false;
+		branch.addTransition("intro", "outro", () => unlocked);
+		branch.addTransition("outro", undefined);
+		start(branch, stateMachine);
+
+		intro.nextState();
+		intro.nextState();
+		intro.nextState();
+		environment.tick(5);
+		expect(branch.activeLevel).toBe("starktma:quest_intro");
+		expect(branch.levelState).toBe(levelState.COMPLETED);
+
+		unlocked = true;
+		environment.tick();
+		expect(branch.activeLevel).toBe("starktma:quest_outro");
+
+		outro.nextState();
+		outro.nextState();
+		outro.nextState();
+		environment.tick();
+		expect(branch.activeLevel).toBeUndefined();
+	});
+});
+
+describe("Level sub-states", () => {
+	it("runs the enter, loop and exit hooks of each sub-state in order", async () => {
+		const { stateMachine, environment } = await load();
+		const calls: string[] = [];
+		const branch = stateMachine.createBranch("dungeon");
+		const level = branch.addLevel("floor", true);
+		for (const name of ["intro", "wave", "boss"]) {
+			level.addSubState(name, {
+				onEnter: () => calls.push(`enter ${name}`),
+				onLoop: () => calls.push(`loop ${name}`),
+				onExit: () => calls.push(`exit ${name}`),
+			});
+		}
+		level.events.onLevelExit(() => calls.push("level exit"));
+		start(branch, stateMachine);
+
+		level.nextState();
+		environment.tick();
+		level.nextState();
+		level.nextState();
+		environment.tick();
+		level.nextState();
+		environment.tick();
+
+		expect(calls).toEqual([
+			"enter intro",
+			"loop intro",
+			"exit intro",
+			"enter wave",
+			"exit wave",
+			"enter boss",
+			"loop boss",
+			"exit boss",
+			"level exit",
+		]);
+		expect(branch.levelState).toBe(levelState.END_LEVEL);
+		expect(branch.subState).toBeUndefined();
+	});
+
+	it("follows sub-state transitions by priority and stays while no guard passes", async () => {
+		const { stateMachine } = await load();
+		const branch = stateMachine.createBranch("dungeon");
+		const level = branch.addLevel("floor", true);
+		["wave1", "wave2", "boss"].forEach((name) => level.addSubState(name));
+		let cleared = false;
+		level.addSubStateTransition("wave1", "boss", () => cleared, 1);
+		level.addSubStateTransition("wave1", "wave2", () => false);
+		start(branch, stateMachine);
+
+		level.nextState();
+		expect(level.nextSubState()).toBe(false);
+		expect(level.getSubState()).toBe("wave1");
+
+		cleared = true;
+		expect(level.nextSubState()).toBe(true);
+		expect(level.getSubState()).toBe("boss");
+	});
+});
+
+describe("Level countdowns", () => {
+	it("pause while their branch is inactive and resume where they stopped", async () => {
+		const { stateMachine, environment } = await load();
+		const ended = vi.fn();
+		const branch = stateMachine.createBranch("arena");
+		const level = branch.addLevel("fight", true);
+		level.addCountdown("round", 10, { onEnd: ended });
+		start(branch, stateMachine);
+
+		level.startCountdown("round");
+		environment.tick(4);
+		expect(level.getCountdown("round")).toBe(6);
+
+		stateMachine.deactivateBranch(branch);
+		environment.tick(20);
+		expect(level.getCountdown("round")).toBe(6);
+
+		stateMachine.activateBranch(branch);
+		environment.tick(6);
+		expect(level.getCountdown("round")).toBe(0);
+		expect(ended).not.toHaveBeenCalled();
+		environment.tick();
+		expect(ended).toHaveBeenCalledTimes(1);
+		expect(level.getCountdown("round")).toBeUndefined();
+	});
+
+	it("resume after a reload", async () => {
+		const define = (stateMachine: Awaited<ReturnType<typeof load>>["stateMachine"], onEnd: () => void) => {
+			const branch = stateMachine.createBranch("arena");
+			const level = branch.addLevel("fight", true);
+			level.addCountdown("round", 10, { onEnd });
+			return { branch, level };
+		};
+
+		const before = await load();
+		const first = define(before.stateMachine, () => {});
+		start(first.branch, before.stateMachine);
+		first.level.startCountdown("round");
+		before.environment.tick(4);
+
+		const after = await load(before.environment);
+		const ended = vi.fn();
+		const { branch, level } = define(after.stateMachine, ended);
+		after.stateMachine.activateBranch(branch);
+		expect(level.getCountdown("round")).toBe(6);
+
+		after.environment.tick(7);
+		expect(ended).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("Branch templates", () => {
+	it("restores the instances of a template with their context and level after a reload", async () => {
+		const contexts: unknown[] = [];
+		const setup = (branch: Branch, context: { origin: number }) => {
+			contexts.push(context);
+			branch.addLevel("fight", true);
+			branch.addLevel("results");
+		};
+
+		const before = await load();
+		const arena = before.stateMachine.defineBranchTemplate("arena", setup);
+		const north = before.stateMachine.spawnBranch(arena, { origin: 100 });
+		const south = before.stateMachine.spawnBranch(arena, { origin: 200 });
+		const west = before.stateMachine.spawnBranch(arena, { origin: 300 });
+		south.jumpToLevel("results");
+		before.stateMachine.disposeBranch(west);
+		before.environment.tick();
+		expect(north.identifier).toBe("starktma:arena#1");
+
+		contexts.length = 0;
+		const after = await load(before.environment);
+		const restored = after.stateMachine.defineBranchTemplate("arena", setup);
+		const instances = after.stateMachine.getBranchInstances(restored);
+
+		expect(contexts).toEqual([{ origin: 100 }, { origin: 200 }]);
+		expect(instances.map((branch) => [branch.identifier, branch.context, branch.activeLevel])).toEqual([
+			["starktma:arena#1", { origin: 100 }, "starktma:arena#1_fight"],
+			["starktma:arena#2", { origin: 200 }, "starktma:arena#2_results"],
+		]);
+		expect(after.stateMachine.spawnBranch(restored, { origin: 400 }).identifier).toBe("starktma:arena#3");
+	});
+});
+
+describe("Player placement", () => {
+	it("places a joining player in the main branch when the placement rule returns an unknown branch", async () => {
+		const { stateMachine, mainBranch, playerDatabase } = await load();
+		const arena = stateMachine.defineBranchTemplate("arena", (branch) => branch.addLevel("fight", true));
+		const disposed = stateMachine.spawnBranch(arena, {});
+		stateMachine.disposeBranch(disposed);
+		stateMachine.setPlacementRules({ newPlayer: () => disposed });
+
+		const player = { id: "-1", nameTag: "Steve" } as unknown as Player;
+		game.emit("world.afterEvents.playerSpawn", { player, initialSpawn: true });
+
+		expect(playerDatabase.getObject("-1")?.branch).toBe(mainBranch.identifier);
+		expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("newPlayer placement rule"));
+	});
+});
@@ -1,5 +1,6 @@
 import * as mc from "@minecraft/server";
-import { PlayerDatabase } from "./database";
+import "../database/minecraft";
+import { BranchDatabase, PlayerDatabase } from "./database";
 import { PlayerObject, playerState } from "./interfaces";
 import { Level } from "./level";
 import { Branch } from "./branch";
@@ -43,9 +44,34 @@ class StateMachineEventRegister {
 	}
 }
 
+/**
+ * Rules for the branch players start in when they join the server.
+ */
+export interface PlayerPlacementRules {
+	/** Picks the branch of a player joining for the first time, or after a reset. The main branch by default. */
+	newPlayer?: (player: mc.Player) => Branch;
+	/**
+	 * Picks the branch of a player joining again.
+	 * By default players go back to their branch if it is still active and running a level, and to the main branch otherwise.
+	 * @param previous The branch the player was in when they left, or undefined if it no longer exists.
+	 */
+	returningPlayer?: (player: mc.Player, previous: Branch | undefined) => Branch;
+}
+
+/**
+ * A branch defined once and spawned as any number of independent instances, such as one minigame running in several arenas.
+ * @template C The context data of an instance, which must be JSON serializable.
+ */
+export interface BranchTemplate<C extends Record<string, unknown>> {
+	readonly name: string;
+	/** Adds the levels and handlers of an instance. */
+	readonly setup: (branch: Branch, context: C) => void;
+}
+
 class PlayerManager {
 	private playerDatabase: PlayerDatabase = PlayerDatabase.getInstance();
 	private players: Map<string, mc.Player> = new Map();
+	public placement: PlayerPlacementRules = {};
 
 	/**
 	 *
@@ -81,21 +107,96 @@ class PlayerManager {
 		return formattedData;
 	}
 
-	private registerNewPlayer(player: mc.Player) {
+	private registerNewPlayer(player: mc.Player, branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }) {
 		if (!this.playerDatabase.hasObject(player.id)) {
+			const branch = this.placement.newPlayer ? this.checkPlacement(this.placement.newPlayer(player), "newPlayer", branches) : mainBranch;
 			this.playerDatabase.addObject({
 				id: player.id,
-				branch: mainBranch.identifier,
-				playerLevel: mainLevel0.identifier,
+				branch: branch.identifier,
+				playerLevel: branch.activeLevel ?? "",
 				playerState: playerState.SETUP_PLAYER,
 			});
 		}
 	}
 
+	/**
+	 * Checks the branch picked by a placement rule. A branch the state machine does not know, such as a disposed instance,
+	 * is replaced by the main branch.
+	 * @param branch The branch picked by the rule.
+	 * @param rule The name of the rule.
+	 * @returns The branch to place the player in.
+	 */
+	private checkPlacement(
+		branch: Branch | undefined,
+		rule: keyof PlayerPlacementRules,
+		branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }
+	): Branch {
+		if (branch && branches.branches.get(branch.identifier) === branch) return branch;
+		console.warn(
+			`The ${rule} placement rule returned ${branch?.identifier ?? "no branch"}, which is not a branch of this state machine. The player is placed in the main branch`
+		);
+		return mainBranch;
+	}
+
+	/**
+	 * Moves a player to a branch.
+	 * The player leaves its current level first, then joins the active level of the branch right away if the branch is active,
+	 * or once it becomes active otherwise.
+	 * @param player The player to move.
+	 * @param branch The branch to move the player to.
+	 */
+	public assignPlayer(player: mc.Player, branch: Branch, branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }) {
+		this.registerNewPlayer(player, branches);
+		const playerObject = this.playerDatabase.getObject(player.id)!;
+		if (playerObject.branch === branch.identifier) return;
+
+		if (playerObject.playerState === playerState.EXIT_PLAYER) {
+			const previousLevel = branches.branches.get(playerObject.branch)?.getLevels().get(playerObject.playerLevel);
+			previousLevel?.eventTrigger.triggerPlayerLeaveLevel(player);
+		}
+		playerObject.branch = branch.identifier;
+		playerObject.playerLevel = branch.activeLevel ?? "";
+		playerObject.playerState = playerState.SETUP_PLAYER;
+		this.playerDatabase.updateObject(playerObject);
+
+		const level = branch.activeLevel ? branch.getLevels().get(branch.activeLevel) : undefined;
+		if (level && branches.activeBranches.has(branch)) {
+			this.updatePlayerState(level, player, playerObject, branch);
+		}
+	}
+
+	/**
+	 * Moves every online player matching a filter to a branch.
+	 * @param filter Selects the players to move.
+	 * @param branch The branch to move the players to.
+	 * @returns The moved players.
+	 */
+	public movePlayers(
+		filter: (player: mc.Player, playerObject: PlayerObject) => boolean,
+		branch: Branch,
+		branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }
+	): mc.Player[] {
+		const moved = Array.from(this.players.values()).filter((player) => {
+			const playerObject = this.playerDatabase.getObject(player.id);
+			return playerObject !== undefined && playerObject.branch !== branch.identifier && filter(player, playerObject);
+		});
+		moved.forEach((player) => this.assignPlayer(player, branch, branches));
+		return moved;
+	}
+
 	private updatePlayerState(currentLevel: Level, player: mc.Player, playerObject: PlayerObject, branch: Branch) {
 		if (playerObject.playerLevel === currentLevel.identifier && playerObject.playerState === playerState.SETUP_PLAYER) {
 			currentLevel.eventTrigger.triggerPlayerJoinLevel(player);
 			playerObject.playerState = playerState.EXIT_PLAYER;
+		} else if (
+			playerObject.playerLevel !== currentLevel.identifier &&
+			(branch.hasTransitions() || !branch.getLevels().has(playerObject.playerLevel))
+		) {
+			// Levels are not visited in order, or the player comes from another branch,
+			// so the player only leaves its level and joins the current one on the next tick
+			branch.getLevels().get(playerObject.playerLevel)?.eventTrigger.triggerPlayerLeaveLevel(player);
+			playerObject.playerState = playerState.SETUP_PLAYER;
+			playerObject.playerLevel = currentLevel.identifier;
 		} else if (playerObject.playerLevel !== currentLevel.identifier) {
 			const levels = Array.from(branch.getLevels());
 
@@ -129,48 +230,76 @@ class PlayerManager {
 	/**
 	 * Resets the player database.
 	 */
-	public reset() {
+	public reset(branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }) {
 		this.playerDatabase.eraseAllObjects();
 
 		mc.world.getAllPlayers().forEach((player) => {
 			this.players.set(player.id, player);
-			this.registerNewPlayer(player);
+			this.registerNewPlayer(player, branches);
 		});
 	}
 
 	/**
 	 * Called when a player joins the server.
-	 * If a player does not exist on the database, it will be added to the main branch.
+	 * New players are placed in a branch by the `newPlayer` placement rule, and returning players by the `returningPlayer` rule.
 	 * @param player The player that joined the server.
 	 */
 	public onPlayerJoinServer(player: mc.Player, branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }) {
-		this.registerNewPlayer(player);
+		const returning = this.playerDatabase.hasObject(player.id);
+		this.registerNewPlayer(player, branches);
 
 		this.players.set(player.id, player);
 
 		const playerObject = this.playerDatabase.getObject(player.id)!;
-		const branch = branches.branches.get(playerObject.branch)!;
-		const currentLevel = branch.getActiveLevel();
+		const previous = branches.branches.get(playerObject.branch);
+		let branch: Branch;
+		if (returning && this.placement.returningPlayer) {
+			branch = this.checkPlacement(this.placement.returningPlayer(player, previous), "returningPlayer", branches);
+		} else if (previous && (!returning || (previous.activeLevel && branches.activeBranches.has(previous)))) {
+			branch = previous;
+		} else {
+			branch = mainBranch;
+		}
 
-		if (!currentLevel || !branches.activeBranches.has(branch)) {
-			playerObject.branch = mainBranch.identifier;
-			playerObject.playerLevel = mainLevel0.identifier;
+		// The player was offline while its branch changed, so it starts over in the branch without leaving its previous level
+		if (playerObject.branch !== branch.identifier || !branch.getLevels().has(playerObject.playerLevel)) {
+			playerObject.branch = branch.identifier;
+			playerObject.playerLevel = branch.activeLevel ?? "";
 			playerObject.playerState = playerState.SETUP_PLAYER;
-			mainLevel0.eventTrigger.triggerPlayerJoinServer(player);
-		} else {
+		}
+
+		const currentLevel = branch.activeLevel ? branch.getLevels().get(branch.activeLevel) : undefined;
+		if (currentLevel && branches.activeBranches.has(branch)) {
 			currentLevel.eventTrigger.triggerPlayerJoinServer(player);
 			this.updatePlayerState(currentLevel, player, playerObject, branch);
 		}
 		this.playerDatabase.updateObject(playerObject);
 	}
 
+	/**
+	 * Finds the branch of an online player. A player whose branch no longer exists, such as a disposed instance,
+	 * is placed again like a returning player: by the `returningPlayer` rule, or in the main branch.
+	 * @param player The player.
+	 * @returns The branch of the player.
+	 */
+	private getPlayerBranch(player: mc.Player, branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }): Branch {
+		const playerObject = this.playerDatabase.getObject(player.id);
+		const branch = playerObject && branches.branches.get(playerObject.branch);
+		if (branch) return branch;
+
+		const placed = this.placement.returningPlayer
+			? this.checkPlacement(this.placement.returningPlayer(player, undefined), "returningPlayer", branches)
+			: mainBranch;
+		this.assignPlayer(player, placed, branches);
+		return placed;
+	}
+
 	/**
 	 * Called when a player respawns.
 	 * @param player The player that respawned.
 	 */
 	public onPlayerRespawn(player: mc.Player, branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }) {
-		const playerObject = this.playerDatabase.getObject(player.id)!;
-		const branch = branches.branches.get(playerObject.branch)!;
+		const branch = this.getPlayerBranch(player, branches);
 		const level = branch.getActiveLevel();
 
 		if (level) {
@@ -180,14 +309,15 @@ class PlayerManager {
 
 	/**
 	 * Called when a player leaves the server.
+	 * A player whose branch no longer exists is in no level to leave, and is placed again when joining.
 	 * @param player The player that left the server.
 	 */
 	public onPlayerLeaveServer(player: mc.Player, branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }) {
 		this.players.delete(player.id);
 
-		const playerObject = this.playerDatabase.getObject(player.id)!;
-		const branch = branches.branches.get(playerObject.branch)!;
-		const level = branch.getActiveLevel();
+		const playerObject = this.playerDatabase.getObject(player.id);
+		const branch = playerObject && branches.branches.get(playerObject.branch);
+		const level = branch?.getActiveLevel();
 
 		if (level) {
 			level.eventTrigger.triggerPlayerLeaveServer(player);
@@ -199,8 +329,7 @@ class PlayerManager {
 	 * @param player The player that died.
 	 */
 	public onPlayerDeath(player: mc.Player, branches: { branches: Map<string, Branch>; activeBranches: Set<Branch> }) {
-		const playerObject = this.playerDatabase.getObject(player.id)!;
-		const branch = branches.branches.get(playerObject.branch)!;
+		const branch = this.getPlayerBranch(player, branches);
 		const level = branch.getActiveLevel();
 
 		if (level) {
@@ -210,15 +339,12 @@ class PlayerManager {
 
 	public tick(activeBranches: Set<Branch>) {
 		activeBranches.forEach((branch) => {
-			this.playerDatabase
-				.getAllObjects()
-				.filter((player) => player.branch === branch.identifier)
-				.forEach((player) => {
-					const p = this.players.get(player.id);
-					if (p) {
-						this.updatePlayerState(branch.getActiveLevel()!, p, player, branch);
-					}
-				});
+			this.playerDatabase.findBy("branch", branch.identifier).forEach((player) => {
+				const p = this.players.get(player.id);
+				if (p) {
+					this.updatePlayerState(branch.getActiveLevel()!, p, player, branch);
+				}
+			});
 		});
 	}
 }
@@ -234,6 +360,10 @@ class StateMachine {
 	private branches: Map<string, Branch> = new Map();
 	private activeBranches: Set<Branch> = new Set();
 	private defaultActiveBranches: Set<Branch> = new Set();
+	// Templates of any context are only compared, never set up again, so their context is typed as never
+	private templates: Map<string, BranchTemplate<never>> = new Map();
+	// The template of each spawned branch, by branch id
+	private instanceTemplates: Map<string, BranchTemplate<never>> = new Map();
 
 	/**
 	 * Debug function to display the branches' state in the action bar.
@@ -249,7 +379,7 @@ class StateMachine {
 			data.push({
 				branch: branch.identifier,
 				level: level?.identifier ?? "No active levels",
-				state: branch.levelState,
+				state: branch.subState ? `${branch.levelState} ${branch.subState}` : branch.levelState,
 				isActive: this.activeBranches.has(branch),
 			});
 			longestBranchName = Math.max(longestBranchName, branch.identifier.length);
@@ -286,6 +416,159 @@ class StateMachine {
 		return branch;
 	}
 
+	/**
+	 * Defines a branch template, and restores the instances of the template stored before a reload.
+	 * Restored instances resume where they stopped, with their context, and are active again unless they finished.
+	 * @param name The template name. Instances are named after it, as `name#1`, `name#2` and so on.
+	 * @param setup Adds the levels and handlers of an instance. It runs once for every instance, with the context of the instance.
+	 * @returns The template.
+	 * @example
+	 * const arena = stateMachine.defineBranchTemplate("arena", (branch, context: { origin: mc.Vector3 }) => {
+	 * 	const fight = branch.addLevel("fight", true);
+	 * 	fight.events.onPlayerJoinLevel((player) => player.teleport(context.origin));
+	 * });
+	 * const instance = stateMachine.spawnBranch(arena, { origin: { x: 100, y: 64, z: 0 } });
+	 * stateMachine.movePlayers((player) => player.hasTag("queued"), instance);
+	 */
+	public defineBranchTemplate<C extends Record<string, unknown>>(
+		name: string,
+		setup: (branch: Branch, context: C) => void
+	): BranchTemplate<C> {
+		if (this.templates.has(name) || this.branches.has(`${getNamespace()}:${name}`)) {
+			throw new Error(`Branch template with name ${name} already exists. Error at StateMachine.defineBranchTemplate`);
+		}
+		const template: BranchTemplate<C> = { name, setup };
+		this.templates.set(name, template);
+
+		const prefix = `${getNamespace()}:${name}#`;
+		BranchDatabase.getInstance()
+			.getAllObjects()
+			.filter((branchObject) => branchObject.id.startsWith(prefix))
+			.forEach((branchObject) => {
+				const branch = this.createInstance(template, branchObject.id.slice(getNamespace().length + 1), branchObject.context as C);
+				if (branch.activeLevel) {
+					this.activateBranch(branch);
+				}
+			});
+		return template;
+	}
+
+	/**
+	 * Spawns a new instance of a branch template, starting at its default level.
+	 * @param template The template to spawn.
+	 * @param context The context data of the instance, stored with its state.
+	 * @param activate Whether to activate the instance or not.
+	 * @returns The instance.
+	 */
+	public spawnBranch<C extends Record<string, unknown>>(template: BranchTemplate<C>, context: C, activate: boolean = true): Branch {
+		if (this.templates.get(template.name) !== template) {
+			throw new Error(`Branch template ${template.name} was not defined by this state machine. Error at StateMachine.spawnBranch`);
+		}
+		let index = 1;
+		while (this.branches.has(`${getNamespace()}:${template.name}#${index}`)) {
+			index++;
+		}
+
+		const branch = this.createInstance(template, `${template.name}#${index}`, context);
+		branch.resetBranch();
+		if (activate) {
+			this.activateBranch(branch);
+		}
+		return branch;
+	}
+
+	private createInstance<C extends Record<string, unknown>>(template: BranchTemplate<C>, name: string, context: C): Branch {
+		const branch = new Branch(name, context);
+		this.branches.set(branch.identifier, branch);
+		this.instanceTemplates.set(branch.identifier, template);
+		template.setup(branch, context);
+		return branch;
+	}
+
+	/**
+	 * Lists the running instances of a branch template.
+	 * @param template The template.
+	 * @returns The instances, in the order they were spawned or restored.
+	 */
+	public getBranchInstances<C extends Record<string, unknown>>(template: BranchTemplate<C>): Branch[] {
+		return Array.from(this.instanceTemplates)
+			.filter(([, instanceTemplate]) => instanceTemplate === template)
+			.map(([branchId]) => this.branches.get(branchId)!);
+	}
+
+	/**
+	 * Disposes an instance of a branch template and removes its stored state.
+	 * Online players of the instance leave its level and are moved to another branch, offline players are placed when they join again.
+	 * Instances are disposed automatically when they finish their last level, and when the state machine is reset.
+	 * @param branch The instance to dispose.
+	 * @param target The branch to move the players to, the main branch by default.
+	 */
+	public disposeBranch(branch: Branch, target: Branch = mainBranch) {
+		if (this.branches.get(branch.identifier) !== branch || !this.instanceTemplates.has(branch.identifier)) {
+			throw new Error(`Branch ${branch.identifier} is not a template instance. Error at StateMachine.disposeBranch`);
+		}
+		this.movePlayers((_, playerObject) => playerObject.branch === branch.identifier, target);
+		this.removeInstance(branch);
+	}
+
+	private removeInstance(branch: Branch) {
+		if (branch.activeLevel) {
+			branch.getLevels().get(branch.activeLevel)?.clearCountdownDisplays();
+		}
+		this.deactivateBranch(branch);
+		this.branches.delete(branch.identifier);
+		this.instanceTemplates.delete(branch.identifier);
+
+		const branchDatabase = BranchDatabase.getInstance();
+		branchDatabase.withReason(`dispose ${branch.identifier}`, () => branchDatabase.removeObject(branch.identifier));
+	}
+
+	/**
+	 * Moves a player to a branch, persisting the change.
+	 * The player leaves its current level, then joins the active level of the branch.
+	 * If the branch is not active yet, the player joins its level once it is activated.
+	 * @param player The player to move.
+	 * @param branch The branch to move the player to.
+	 * @example
+	 * stateMachine.assignPlayer(player, arenaBranch);
+	 */
+	public assignPlayer(player: mc.Player, branch: Branch) {
+		this.requireBranch(branch, "assignPlayer");
+		this.playersManager.assignPlayer(player, branch, { branches: this.branches, activeBranches: this.activeBranches });
+	}
+
+	/**
+	 * Moves every online player matching a filter to a branch, like assignPlayer.
+	 * @param filter Selects the players to move, from the player and its stored state.
+	 * @param branch The branch to move the players to.
+	 * @returns The moved players.
+	 * @example
+	 * const team = stateMachine.movePlayers((player) => player.hasTag("team_red"), redArena);
+	 */
+	public movePlayers(filter: (player: mc.Player, playerObject: PlayerObject) => boolean, branch: Branch): mc.Player[] {
+		this.requireBranch(branch, "movePlayers");
+		return this.playersManager.movePlayers(filter, branch, { branches: this.branches, activeBranches: this.activeBranches });
+	}
+
+	/**
+	 * Sets the rules for the branch new and returning players start in.
+	 * @param rules The placement rules. Rules left undefined use the default placement.
+	 * @example
+	 * stateMachine.setPlacementRules({
+	 * 	newPlayer: () => lobbyBranch,
+	 * 	returningPlayer: (player, previous) => previous ?? lobbyBranch,
+	 * });
+	 */
+	public setPlacementRules(rules: PlayerPlacementRules) {
+		this.playersManager.placement = rules;
+	}
+
+	private requireBranch(branch: Branch, method: string) {
+		if (this.branches.get(branch.identifier) !== branch) {
+			throw new Error(`Branch ${branch.identifier} was not created by this state machine. Error at StateMachine.${method}`);
+		}
+	}
+
 	/**
 	 * Activates a branch.
 	 * @param branch The branch to activate.
@@ -335,8 +618,10 @@ class StateMachine {
 			if (event.id === RESET_EVENT) {
 				this.eventTrigger.triggerReset();
 			} else if (event.id === JUMP_EVENT) {
+				// The message is the level name, optionally followed by a sub-state: "arena boss"
+				const [levelName, subState] = event.message.trim().split(/\s+/);
 				this.activeBranches.forEach((branch) => {
-					branch.jumpToLevel(event.message);
+					branch.jumpToLevel(levelName, subState);
 				});
 			}
 		});
@@ -344,6 +629,7 @@ class StateMachine {
 		mc.system.runInterval(() => this.eventTrigger.triggerTick());
 
 		this.events.onReset(() => {
+			this.instanceTemplates.forEach((_, branchId) => this.removeInstance(this.branches.get(branchId)!));
 			this.activeBranches.clear();
 			this.branches.forEach((branch) => {
 				branch.resetBranch();
@@ -351,12 +637,14 @@ class StateMachine {
 			this.defaultActiveBranches.forEach((branch) => {
 				this.activateBranch(branch);
 			});
-			this.playersManager.reset();
+			this.playersManager.reset({ branches: this.branches, activeBranches: this.activeBranches });
 		});
 
 		this.events.onTick(() => {
 			this.activeBranches.forEach((branch) => {
-				if (!branch.getActiveLevel()) {
+				if (!branch.activeLevel && this.instanceTemplates.has(branch.identifier)) {
+					this.disposeBranch(branch);
+				} else if (!branch.getActiveLevel()) {
 					this.deactivateBranch(branch);
 				} else {
 					branch.tick();
@@ -14,7 +14,7 @@ import {
 } from "@minecraft/server";
 import { MinecraftItemTypes } from "@minecraft/vanilla-data";
 import { getNamespace } from "../constants";
-import { SimpleDatabase, SimpleObject } from "../database";
+import { EntityDatabaseRegistry, SimpleDatabase, SimpleObject } from "../database";
 
 // ============================= Types =========================================
 
@@ -58,8 +58,9 @@ interface PotionItemParams {
 	potion_color: [number, number, number, number];
 }
 
-interface AreaEffectCloud {
+interface AreaEffectCloud extends SimpleObject {
 	id: string;
+	potion: string; // namespace:effectKey of the potion config, to find the handler after a reload
 	dimension: string;
 	location: Vector3;
 	color: RGBA;
@@ -67,10 +68,16 @@ interface AreaEffectCloud {
 	duration: number;
 	currentRadius: number;
 	maxRadius: number;
-	createdTick: number;
+	age: number;
 	maxLifetime: number;
 	affectedEntities: Set<string>;
-	handler: (entity: Entity, amplifier: number, duration: number, color: RGBA) => void;
+}
+
+// Lingering clouds are kept in the world so they resume after a reload, saved every 5 seconds and on shutdown
+class AreaEffectCloudDatabase extends SimpleDatabase<AreaEffectCloud> {
+	constructor() {
+		super("areaEffectClouds", undefined, { persistence: { mode: "periodic", interval: 100, threshold: Infinity } });
+	}
 }
 
 // ============================= EffectManager =================================
@@ -79,11 +86,13 @@ class EffectManager {
 	private static instance: EffectManager;
 	private effectConfigs = new Map<string, EffectConfig>();
 	private potionConfigs = new Map<string, PotionConfig>();
-	private areaEffectClouds = new Map<string, AreaEffectCloud>();
+	private areaEffectClouds: AreaEffectCloudDatabase | undefined;
 	private cloudIdCounter = 0;
 	private trackedEntities = new Map<string, Entity>();
-	// Entity databases: entityId -> EffectDatabase
-	private entityDatabases = new Map<string, EffectDatabase>();
+	// Entity databases: entities without effects keep no data
+	private entityDatabases = new EntityDatabaseRegistry((entity) => new EffectDatabase(entity), {
+		compactEmpty: true,
+	});
 
 	static getInstance(): EffectManager {
 		if (!EffectManager.instance) {
@@ -96,14 +105,22 @@ class EffectManager {
 
 	// ============================= Database Helpers ==========================
 
+	// Opened on first use, once world properties can be read. Entities hit before the reload can be hit again after the usual delay
+	private getCloudDatabase(): AreaEffectCloudDatabase {
+		if (!this.areaEffectClouds) {
+			this.areaEffectClouds = new AreaEffectCloudDatabase();
+			for (const cloud of this.areaEffectClouds.getAllObjects()) {
+				for (const entityId of cloud.affectedEntities) {
+					this.releaseEntity(cloud, entityId);
+				}
+			}
+		}
+		return this.areaEffectClouds;
+	}
+
 	// Get or create database for an entity
 	private getEntityDatabase(entity: Entity): EffectDatabase {
-		let db = this.entityDatabases.get(entity.id);
-		if (!db) {
-			db = new EffectDatabase(entity);
-			this.entityDatabases.set(entity.id, db);
-		}
-		return db;
+		return this.entityDatabases.get(entity);
 	}
 
 	private getEffect(entity: Entity, effectType: string): EffectObject | null {
@@ -227,7 +244,7 @@ class EffectManager {
 
 		// Untrack entity if no effects remain
 		if (!this.hasActiveEffects(entity)) {
-			this.entityDatabases.delete(entity.id);
+			this.entityDatabases.unload(entity.id);
 			this.trackedEntities.delete(entity.id);
 		}
 	}
@@ -253,7 +270,7 @@ class EffectManager {
 
 		// Clear database and untrack
 		db.eraseAllObjects();
-		this.entityDatabases.delete(entity.id);
+		this.entityDatabases.unload(entity.id);
 		this.trackedEntities.delete(entity.id);
 	}
 
@@ -312,7 +329,7 @@ class EffectManager {
 			// Process effects on tracked entities only
 			for (const [entityId, entity] of this.trackedEntities.entries()) {
 				if (!entity.isValid) {
-					this.entityDatabases.delete(entityId);
+					this.entityDatabases.unload(entityId);
 					this.trackedEntities.delete(entityId);
 					continue;
 				}
@@ -324,7 +341,7 @@ class EffectManager {
 				const effects = db.getAllObjects();
 
 				if (effects.length === 0) {
-					this.entityDatabases.delete(entityId);
+					this.entityDatabases.unload(entityId);
 					this.trackedEntities.delete(entityId);
 					continue;
 				}
@@ -393,12 +410,12 @@ class EffectManager {
 
 				// Untrack if no effects remain
 				if (!this.hasActiveEffects(entity)) {
-					this.entityDatabases.delete(entityId);
+					this.entityDatabases.unload(entityId);
 					this.trackedEntities.delete(entityId);
 				}
 			}
 
-			for (const cloud of this.areaEffectClouds.values()) {
+			for (const cloud of this.getCloudDatabase().getAllObjects()) {
 				this.updateCloud(cloud);
 			}
 		}, 1);
@@ -422,7 +439,7 @@ class EffectManager {
 
 		// Clean up when entities die
 		world.afterEvents.entityDie.subscribe((event) => {
-			this.entityDatabases.delete(event.deadEntity.id);
+			this.entityDatabases.unload(event.deadEntity.id);
 			this.trackedEntities.delete(event.deadEntity.id);
 		});
 
@@ -498,8 +515,15 @@ class EffectManager {
 		const amplifier = projectile.getProperty(`${config.namespace}:amplifier`) as number;
 		const duration = (projectile.getProperty(`${config.namespace}:duration`) as number) * 20;
 
+		const clouds = this.getCloudDatabase();
+		let id = `aoe_cloud_${this.cloudIdCounter++}`;
+		while (clouds.hasObject(id)) {
+			id = `aoe_cloud_${this.cloudIdCounter++}`;
+		}
+
 		const cloud: AreaEffectCloud = {
-			id: `aoe_cloud_${this.cloudIdCounter++}`,
+			id,
+			potion: `${config.namespace}:${config.effectKey}`,
 			dimension: projectile.dimension.id,
 			location,
 			color,
@@ -507,27 +531,32 @@ class EffectManager {
 			duration,
 			currentRadius: config.lingeringMaxRadius!,
 			maxRadius: config.lingeringMaxRadius!,
-			createdTick: system.currentTick,
+			age: 0,
 			maxLifetime: config.lingeringLifetime!,
 			affectedEntities: new Set<string>(),
-			handler: config.handler,
 		};
 
-		this.areaEffectClouds.set(cloud.id, cloud);
+		clouds.addObject(cloud);
 		projectile.remove();
 	}
 
 	private updateCloud(cloud: AreaEffectCloud): void {
+		const clouds = this.getCloudDatabase();
+		const config = this.potionConfigs.get(cloud.potion);
+		// Potions may be registered after the world loads, the cloud waits for its config instead of being lost
+		if (!config) return;
+
 		const dimension = world.getDimension(cloud.dimension);
-		const age = system.currentTick - cloud.createdTick;
+		const age = cloud.age++;
 		const ageProgress = Math.min(age / cloud.maxLifetime, 1);
 
 		cloud.currentRadius = Math.max(0, cloud.maxRadius * (1 - ageProgress));
 
 		if (age >= cloud.maxLifetime || cloud.currentRadius <= 0) {
-			this.areaEffectClouds.delete(cloud.id);
+			clouds.removeObject(cloud.id);
 			return;
 		}
+		clouds.updateObject(cloud);
 
 		const variables = new MolangVariableMap();
 		variables.setFloat("cloud_lifetime", cloud.maxLifetime / 20);
@@ -547,17 +576,24 @@ class EffectManager {
 		for (const entity of nearbyEntities) {
 			if (cloud.affectedEntities.has(entity.id)) continue;
 
-			cloud.handler(entity, cloud.amplifier, Math.floor(cloud.duration), cloud.color);
+			config.handler(entity, cloud.amplifier, Math.floor(cloud.duration), cloud.color);
 			cloud.currentRadius = Math.max(0, cloud.currentRadius - 0.5);
 			cloud.maxLifetime = Math.max(0, cloud.maxLifetime - 100);
 			cloud.affectedEntities.add(entity.id);
-
-			system.runTimeout(() => {
-				cloud.affectedEntities.delete(entity.id);
-			}, 60);
+			this.releaseEntity(cloud, entity.id);
 		}
 	}
 
+	// Lets an entity be affected by a cloud again after 3 seconds
+	private releaseEntity(cloud: AreaEffectCloud, entityId: string): void {
+		system.runTimeout(() => {
+			const current = this.getCloudDatabase().getObject(cloud.id);
+			if (!current) return;
+			current.affectedEntities.delete(entityId);
+			this.getCloudDatabase().updateObject(current);
+		}, 60);
+	}
+
 	private getColorFromEntity(entity: Entity, namespace: string): RGBA {
 		return {
 			red: entity.getProperty(`${namespace}:color_r`) as number,
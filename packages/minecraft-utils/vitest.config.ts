@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+
+// @minecraft/server only ships types, the game provides it at runtime.
+// Tests resolve it to an empty module, and the tests that need the game mock it with vi.mock.
+const MINECRAFT_SERVER = "\0@minecraft/server";
+
+export default defineConfig({
+	plugins: [
+		{
+			name: "minecraft-server",
+			enforce: "pre",
+			resolveId: (id) => (id === "@minecraft/server" ? MINECRAFT_SERVER : undefined),
+			load: (id) => (id === MINECRAFT_SERVER ? "export {};" : undefined),
+		},
+	],
+});